@@ -1,28 +1,35 @@
-import React from 'react';
-import { createNetworkConfig, SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
-import { getFullnodeUrl } from '@mysten/sui/client';
+import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WhiteLabelApp } from './components/WhiteLabelApp';
-import { SUI_CONFIG } from './config/sui';
+import { NETWORK_PROFILES, SUI_CONFIG } from './config/sui';
+import type { SuiNetwork } from './config/sui';
+import { useActiveNetwork } from './hooks/useNetwork';
+import { getSuiRpcClient } from './services/rpcTransport';
 
 // Import the dApp Kit styles
 import '@mysten/dapp-kit/dist/index.css';
 
-// Config options for the networks you want to connect to
-const { networkConfig } = createNetworkConfig({
-  mainnet: { url: getFullnodeUrl('mainnet') },
-  testnet: { url: getFullnodeUrl('testnet') },
-  devnet: { url: getFullnodeUrl('devnet') },
-  localnet: { url: getFullnodeUrl('localnet') },
-});
+// One entry per network profile - clients come from getSuiRpcClient
+const networkConfig = Object.fromEntries(
+  Object.values(NETWORK_PROFILES).map(profile => [profile.network, { url: profile.rpcUrls[0]! }])
+) as Record<SuiNetwork, { url: string }>;
 
 const queryClient = new QueryClient();
 
 function App() {
+  const [network, setNetwork] = useActiveNetwork();
+
   return (
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork={SUI_CONFIG.network as any}>
-        <WalletProvider>
+      <SuiClientProvider
+        networks={networkConfig}
+        network={network}
+        onNetworkChange={setNetwork}
+        // Every network goes through its failover transport (or the in-memory
+        // chain in demo mode), shared with services outside React
+        createClient={getSuiRpcClient}
+      >
+        <WalletProvider autoConnect enableUnsafeBurner={SUI_CONFIG.demoMode}>
           <WhiteLabelApp />
         </WalletProvider>
       </SuiClientProvider>
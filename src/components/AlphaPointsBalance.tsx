@@ -1,196 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import React from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useAlphaPoints } from '../hooks/useAlphaPoints';
 import { formatPoints } from '../utils/format';
 import { SUI_CONFIG } from '../config/sui';
 import { BRAND_CONFIG } from '../config/brand';
-
-// Helper to format points consistently
-const formatAlphaPoints = (points: bigint | string | number): string => {
-  const pointsNum = typeof points === 'bigint' ? Number(points) : Number(points);
-  return new Intl.NumberFormat().format(pointsNum);
-};
-
-/**
- * Improved decoder for u64 values from Sui Move call results
- * Handles various edge cases and provides better error reporting
- * Now accepts standard Array<number> as input and converts internally.
- */
-function decodeU64(bytesInput: Array<number> | Uint8Array | unknown): number {
-  let bytes: Uint8Array;
-
-  // Convert standard array to Uint8Array if necessary
-  if (Array.isArray(bytesInput) && bytesInput.every(n => typeof n === 'number')) {
-    bytes = new Uint8Array(bytesInput);
-  } else if (bytesInput instanceof Uint8Array) {
-    bytes = bytesInput;
-  } else {
-    console.error('Invalid input type for u64 decoding:', typeof bytesInput);
-    return 0;
-  }
-
-  // Original validation and decoding logic using the ensured Uint8Array
-  if (!bytes) {
-    console.error('No data provided for decoding u64 value');
-    return 0;
-  }
-  
-  // Length check still applies
-  if (bytes.length !== 8) {
-    console.error(`Invalid byte length for u64: expected 8, got ${bytes.length}`);
-    return 0;
-  }
-  
-  try {
-    const dataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-    const valueBigInt = dataView.getBigUint64(0, true); // true for little-endian
-    
-    const valueNumber = Number(valueBigInt);
-    
-    if (valueBigInt > BigInt(Number.MAX_SAFE_INTEGER)) {
-      console.warn(
-        `Potential precision loss converting u64 value ${valueBigInt} to JavaScript number. ` +
-        `Consider using BigInt for large values.`
-      );
-    }
-    
-    return valueNumber;
-  } catch (err) {
-    console.error('Error decoding u64 value:', err);
-    return 0;
-  }
-}
+import { UsdEstimate } from './UsdEstimate';
 
 export const AlphaPointsBalance: React.FC = () => {
   const currentAccount = useCurrentAccount();
-  const suiClient = useSuiClient();
   
-  const [availableBalance, setAvailableBalance] = useState<number>(0);
-  const [lockedBalance, setLockedBalance] = useState<number>(0);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch Alpha Points balance from the chain
-  const fetchBalance = async () => {
-    if (!currentAccount?.address || !suiClient) {
-      setAvailableBalance(0);
-      setLockedBalance(0);
-      return;
-    }
-
-    // Check if shared object IDs are configured
-    if (!SUI_CONFIG.sharedObjects.ledger || SUI_CONFIG.sharedObjects.ledger.includes('0x000') || SUI_CONFIG.sharedObjects.ledger === '0x...') {
-      setError('Shared object IDs not configured. Please update your .env.local file with actual deployed contract object IDs.');
-      setAvailableBalance(0);
-      setLockedBalance(0);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      console.log('🔍 Fetching Alpha Points balance for:', currentAccount.address);
-      console.log('🔧 Using package:', SUI_CONFIG.packageIds.perkManager);
-      console.log('🔧 Using ledger:', SUI_CONFIG.sharedObjects.ledger);
-      
-      // Use the same approach as the main frontend - get available and locked separately
-      const txb = new Transaction();
-
-      // Get available balance
-      txb.moveCall({
-        target: `${SUI_CONFIG.packageIds.perkManager}::ledger::get_available_balance`,
-        arguments: [
-          txb.object(SUI_CONFIG.sharedObjects.ledger),
-          txb.pure.address(currentAccount.address),
-        ],
-        typeArguments: [],
-      });
-
-      // Get locked balance
-      txb.moveCall({
-        target: `${SUI_CONFIG.packageIds.perkManager}::ledger::get_locked_balance`,
-        arguments: [
-          txb.object(SUI_CONFIG.sharedObjects.ledger),
-          txb.pure.address(currentAccount.address),
-        ],
-        typeArguments: [],
-      });
-
-      const inspectResult = await suiClient.devInspectTransactionBlock({
-        sender: currentAccount.address,
-        transactionBlock: txb, 
-      });
-      
-      const status = inspectResult?.effects?.status?.status;
-      if (status !== 'success') {
-        const errorMsg = inspectResult?.effects?.status?.error || 'Unknown devInspect error';
-        console.error('DevInspect execution failed:', errorMsg, inspectResult);
-        throw new Error(`Failed to fetch points: ${errorMsg}`);
-      }
-
-      console.log('📊 DevInspect result:', inspectResult);
-      
-      if (!inspectResult.results || inspectResult.results.length < 2) {
-        console.error('DevInspect results missing or incomplete:', inspectResult);
-        throw new Error('Could not retrieve point balances: Invalid response structure.');
-      }
-      
-      let available = 0;
-      let locked = 0;
-      
-      const availableResult = inspectResult.results[0];
-      if (availableResult?.returnValues?.[0]) {
-        const [bytes, type] = availableResult.returnValues[0];
-        if (type === 'u64' && Array.isArray(bytes)) {
-          available = decodeU64(bytes);
-        } else {
-          throw new Error(`Unexpected format for available balance. Expected type 'u64' and Array bytes.`);
-        }
-      } else {
-        throw new Error("Could not find available balance return value.");
-      }
-      
-      const lockedResult = inspectResult.results[1];
-      if (lockedResult?.returnValues?.[0]) {
-        const [bytes, type] = lockedResult.returnValues[0];
-        if (type === 'u64' && Array.isArray(bytes)) {
-          locked = decodeU64(bytes);
-        } else {
-          throw new Error(`Unexpected format for locked balance. Expected type 'u64' and Array bytes.`);
-        }
-      } else {
-        throw new Error("Could not find locked balance return value.");
-      }
-      
-      console.log('💰 Found available balance:', available);
-      console.log('🔒 Found locked balance:', locked);
-      setAvailableBalance(available);
-      setLockedBalance(locked);
-      
-    } catch (error: any) {
-      console.error('❌ Failed to fetch Alpha Points balance:', error);
-      setError(error.message || 'Failed to fetch balance');
-      setAvailableBalance(0);
-      setLockedBalance(0);
-    } finally {
-      setLoading(false);
-    }
+  // Shared with PointsDisplay and the marketplace affordability checks
+  const { points, loading, error: balanceError, refetch } = useAlphaPoints();
+  const availableBalance = points.available;
+  const lockedBalance = points.locked;
+
+  // Check if shared object IDs are configured
+  const ledgerId = SUI_CONFIG.sharedObjects.ledger;
+  const isLedgerConfigured = !!ledgerId && !ledgerId.includes('0x000') && ledgerId !== '0x...';
+  const error = isLedgerConfigured
+    ? balanceError
+    : 'Shared object IDs not configured. Please update your .env.local file with actual deployed contract object IDs.';
+
+  const fetchBalance = () => {
+    void refetch();
   };
 
-  // Fetch balance when account changes
-  useEffect(() => {
-    fetchBalance();
-  }, [currentAccount?.address, suiClient]);
-
-  // Auto-refresh balance every 30 seconds
-  useEffect(() => {
-    if (!currentAccount?.address) return;
-
-    const interval = setInterval(fetchBalance, 30000);
-    return () => clearInterval(interval);
-  }, [currentAccount?.address]);
-
   if (!currentAccount) {
     return null;
   }
@@ -254,23 +88,18 @@ export const AlphaPointsBalance: React.FC = () => {
         ) : (
           <div>
             <div className="text-3xl font-bold text-[var(--color-text)] mb-2">
-              {formatAlphaPoints(availableBalance)}
+              {formatPoints(availableBalance)}
               <span className="text-lg font-normal text-[var(--color-text-muted)] ml-2">αP</span>
             </div>
             
-            {lockedBalance > 0 && (
+            {lockedBalance > 0n && (
               <div className="text-sm text-[var(--color-text-muted)] mb-2">
-                ({formatAlphaPoints(lockedBalance)} αP locked)
+                ({formatPoints(lockedBalance)} αP locked)
               </div>
             )}
             
             {BRAND_CONFIG.features.showPriceInUSD && (
-              <div className="text-sm text-[var(--color-success)]">
-                ≈ ${(availableBalance / 1000).toLocaleString(undefined, { 
-                  minimumFractionDigits: 2, 
-                  maximumFractionDigits: 2 
-                })} USD
-              </div>
+              <UsdEstimate points={availableBalance} suffix="USD" className="text-sm" />
             )}
           </div>
         )}
@@ -0,0 +1,183 @@
+import React from 'react';
+import type { PerkDefinition, PointsAmount } from '../types/index';
+import type { CartPreview } from '../services/claimPreview';
+import { formatPoints, formatSui } from '../utils/format';
+import { pointsShortfall } from '../utils/points';
+
+export interface CartEntry {
+  perk: PerkDefinition;
+  price: PointsAmount;
+  hasClaimData: boolean;
+}
+
+interface CartModalProps {
+  entries: CartEntry[];
+  balance: PointsAmount;
+  isReviewing: boolean; // Checkout simulated (or simulating)
+  preview: CartPreview | null; // null while the simulation runs
+  error: string | null; // Simulation itself failed (RPC error)
+  isCheckingOut: boolean;
+  onRemove: (perkId: string) => void;
+  onReview: () => void;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Perks collected for a single checkout, with the total against the user's
+ * balance and the dry-run result for the combined claim
+ */
+export const CartModal: React.FC<CartModalProps> = ({
+  entries,
+  balance,
+  isReviewing,
+  preview,
+  error,
+  isCheckingOut,
+  onRemove,
+  onReview,
+  onConfirm,
+  onClose,
+}) => {
+  const total = entries.reduce((sum, entry) => sum + entry.price, 0n);
+  const shortfall = pointsShortfall(balance, total);
+  const failedPerkId = preview?.failedItemIndex != null ? entries[preview.failedItemIndex]?.perk.id : undefined;
+
+  const rows: [string, string][] = [
+    ['Total', `${formatPoints(total)} αP`],
+    ['Your balance', `${formatPoints(balance)} αP`],
+    ...(preview ? [
+      ['Estimated gas', formatSui(preview.gasEstimateMist)],
+      ['Balance after checkout', `${formatPoints(preview.resultingBalance)} αP`],
+    ] as [string, string][] : []),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        className="max-w-lg w-full rounded-2xl shadow-2xl border"
+        style={{
+          backgroundColor: 'var(--color-background-card)',
+          borderColor: 'var(--color-border)',
+        }}
+      >
+        {/* Header */}
+        <div className="p-6 border-b" style={{ borderColor: 'var(--color-border)' }}>
+          <h2 className="text-xl font-bold" style={{ color: 'var(--color-text)' }}>
+            🛒 Cart
+          </h2>
+          <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+            {entries.length} perk{entries.length !== 1 ? 's' : ''}, claimed together in one transaction
+          </p>
+        </div>
+
+        {/* Items */}
+        <div className="p-6 space-y-2 max-h-72 overflow-y-auto">
+          {entries.length === 0 && (
+            <div className="text-sm text-center py-4" style={{ color: 'var(--color-text-muted)' }}>
+              Your cart is empty
+            </div>
+          )}
+          {entries.map(({ perk, price, hasClaimData }) => (
+            <div
+              key={perk.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg border text-sm"
+              style={{ borderColor: perk.id === failedPerkId ? 'var(--color-error)' : 'var(--color-border)' }}
+            >
+              <div className="min-w-0">
+                <div className="font-medium break-words" style={{ color: 'var(--color-text)' }}>
+                  {perk.name}
+                  {hasClaimData && ' 📝'}
+                </div>
+                {perk.id === failedPerkId && preview?.failureReason && (
+                  <div className="text-xs mt-1" style={{ color: 'var(--color-error)' }}>
+                    ❌ {preview.failureReason}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span style={{ color: 'var(--color-text)' }}>{formatPoints(price)} αP</span>
+                <button
+                  onClick={() => onRemove(perk.id)}
+                  disabled={isCheckingOut}
+                  className="text-xs underline"
+                  style={{ color: 'var(--color-text-muted)' }}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Totals and Simulation Result */}
+        <div className="px-6 pb-6 space-y-3">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex items-center justify-between text-sm">
+              <span style={{ color: 'var(--color-text-muted)' }}>{label}</span>
+              <span className="font-medium" style={{ color: 'var(--color-text)' }}>{value}</span>
+            </div>
+          ))}
+
+          {shortfall > 0n && (
+            <div className="text-sm" style={{ color: 'var(--color-error)' }}>
+              You need {formatPoints(shortfall)} more αP for this cart
+            </div>
+          )}
+
+          {isReviewing && !preview && !error && (
+            <div className="text-sm text-center py-2" style={{ color: 'var(--color-text-muted)' }}>
+              Simulating transaction...
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm" style={{ color: 'var(--color-warning)' }}>
+              Couldn't simulate this checkout ({error}). You can still continue to your wallet.
+            </div>
+          )}
+
+          {/* Failures not tied to one item, e.g. gas */}
+          {preview?.failureReason && !failedPerkId && (
+            <div
+              className="text-sm p-3 rounded-lg border"
+              style={{ borderColor: 'var(--color-error)', color: 'var(--color-error)' }}
+            >
+              ❌ {preview.failureReason}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 p-6 border-t" style={{ borderColor: 'var(--color-border)' }}>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm border transition-colors hover:opacity-80"
+            style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-muted)' }}
+          >
+            Close
+          </button>
+          {isReviewing ? (
+            <button
+              onClick={onConfirm}
+              disabled={isCheckingOut || (!preview && !error) || preview?.willSucceed === false}
+              className="px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+            >
+              {isCheckingOut ? 'Checking out...' : 'Confirm in Wallet'}
+            </button>
+          ) : (
+            <button
+              onClick={onReview}
+              disabled={entries.length === 0 || shortfall > 0n}
+              className="px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+            >
+              Check Out
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { useClaimHistory } from '../hooks/useClaimHistory';
+import { getExplorerTransactionUrl } from '../config/sui';
+import { BRAND_CONFIG } from '../config/brand';
+import { formatPoints } from '../utils/format';
+import { downloadTextFile, historyToCsv, historyToJson } from '../utils/historyExport';
+import type { HistoryEntry } from '../services/claimHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date inputs give local midnight; `to` includes the whole day
+const parseDateInput = (value: string, endOfDay = false): number | null => {
+  if (!value) return null;
+  const start = new Date(`${value}T00:00:00`).getTime();
+  return Number.isNaN(start) ? null : endOfDay ? start + DAY_MS - 1 : start;
+};
+
+const KIND_LABELS: Record<HistoryEntry['kind'], string> = {
+  claim: '🛍️ Claim',
+  redemption: '🎁 Redemption',
+};
+
+/**
+ * The user's claims and redemptions from on-chain transactions, with date
+ * and partner filters and CSV/JSON export for expense reporting
+ */
+export const ClaimHistory: React.FC = () => {
+  const { entries, loading, error, hasMore, loadingMore, loadMore, refetch } = useClaimHistory();
+
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [partner, setPartner] = useState('all');
+
+  const partners = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.partnerName))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const from = parseDateInput(fromDate);
+    const to = parseDateInput(toDate, true);
+    return entries.filter(entry => {
+      if (partner !== 'all' && entry.partnerName !== partner) return false;
+      // Entries without a timestamp only show when no date range is set
+      if (from !== null && (entry.timestampMs === null || entry.timestampMs < from)) return false;
+      if (to !== null && (entry.timestampMs === null || entry.timestampMs > to)) return false;
+      return true;
+    });
+  }, [entries, fromDate, toDate, partner]);
+
+  const totalSpent = filteredEntries.reduce((sum, entry) => sum + entry.pointsSpent, 0n);
+
+  const exportHistory = (format: 'csv' | 'json') => {
+    const filename = `${BRAND_CONFIG.company.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-perk-history.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(filename, historyToCsv(filteredEntries), 'text/csv');
+    } else {
+      downloadTextFile(filename, historyToJson(filteredEntries), 'application/json');
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: 'var(--color-background)',
+    borderColor: 'var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12" style={{ color: 'var(--color-text-muted)' }}>
+        Loading your history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-xl font-medium mb-2 text-red-400">Failed to load history</div>
+        <div className="text-sm mb-4" style={{ color: 'var(--color-text-muted)' }}>{error}</div>
+        <button
+          onClick={() => refetch()}
+          className="px-6 py-2 rounded-lg font-medium transition-colors"
+          style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters and Export */}
+      <div
+        className="p-4 rounded-2xl backdrop-blur-lg shadow-lg border flex flex-wrap items-end justify-between gap-4"
+        style={{ backgroundColor: 'var(--color-background-card)', borderColor: 'var(--color-border)' }}
+      >
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1" style={{ color: 'var(--color-text-muted)' }}>
+            From
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)}
+              className="px-3 py-2 rounded-lg border" style={inputStyle} />
+          </label>
+          <label className="flex flex-col gap-1" style={{ color: 'var(--color-text-muted)' }}>
+            To
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)}
+              className="px-3 py-2 rounded-lg border" style={inputStyle} />
+          </label>
+          <label className="flex flex-col gap-1" style={{ color: 'var(--color-text-muted)' }}>
+            Partner
+            <select value={partner} onChange={(e) => setPartner(e.target.value)}
+              className="px-3 py-2 rounded-lg border" style={inputStyle}>
+              <option value="all">All partners</option>
+              {partners.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => exportHistory(format)}
+              disabled={filteredEntries.length === 0}
+              className="px-4 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={inputStyle}
+            >
+              ⬇️ Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+        {filteredEntries.length} entr{filteredEntries.length !== 1 ? 'ies' : 'y'} · {formatPoints(totalSpent)} αP spent
+        {hasMore && ' (older transactions not loaded yet)'}
+      </div>
+
+      {/* Entries */}
+      {filteredEntries.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">📜</div>
+          <div className="text-xl font-medium" style={{ color: 'var(--color-text)' }}>
+            {entries.length === 0 ? 'No claims yet' : 'No history matches your filters'}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredEntries.map(entry => {
+            const explorerUrl = getExplorerTransactionUrl(entry.digest);
+            return (
+              <div
+                key={`${entry.digest}:${entry.eventSeq}`}
+                className="p-4 rounded-xl border flex flex-wrap items-center justify-between gap-3"
+                style={{ backgroundColor: 'var(--color-background-card)', borderColor: 'var(--color-border)' }}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium break-words" style={{ color: 'var(--color-text)' }}>
+                    {entry.perkName}
+                  </div>
+                  <div className="text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
+                    {KIND_LABELS[entry.kind]} · {entry.partnerName} ·{' '}
+                    {entry.timestampMs === null ? 'Time unknown' : new Date(entry.timestampMs).toLocaleString()}
+                  </div>
+                </div>
+                <div className="text-right text-sm">
+                  {entry.kind === 'claim' && (
+                    <div className="font-medium" style={{ color: 'var(--color-text)' }}>
+                      −{formatPoints(entry.pointsSpent)} αP
+                    </div>
+                  )}
+                  {explorerUrl ? (
+                    <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-xs underline"
+                      style={{ color: 'var(--color-primary)' }}>
+                      {entry.digest.substring(0, 8)}...
+                    </a>
+                  ) : (
+                    <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {entry.digest.substring(0, 8)}...
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasMore && (
+        <div className="text-center">
+          <button
+            onClick={() => loadMore()}
+            disabled={loadingMore}
+            className="px-6 py-2 rounded-lg font-medium border transition-colors disabled:opacity-50"
+            style={inputStyle}
+          >
+            {loadingMore ? '⏳ Loading...' : 'Load older transactions'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
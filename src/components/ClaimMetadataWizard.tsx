@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import type { ClaimMetadataField, ClaimMetadataPrivacy, PerkDefinition } from '../types/index';
+import { validateMetadataField } from '../utils/claimMetadata';
+import { useDiscordAuth } from '../hooks/useDiscordAuth';
+import { BRAND_CONFIG } from '../config/brand';
+
+interface ClaimMetadataWizardProps {
+  perk: PerkDefinition;
+  fields: ClaimMetadataField[];
+  onSubmit: (values: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const INPUT_TYPES: Record<ClaimMetadataField['type'], string> = {
+  discord: 'text',
+  email: 'email',
+  wallet: 'text',
+  text: 'text',
+};
+
+const PRIVACY_NOTES: Record<ClaimMetadataPrivacy, string> = {
+  hash: 'Stored on-chain as a keyed hash, not in plain text.',
+  commit: "Stored on-chain as a commitment. You'll get a reveal code to keep - the partner needs it to verify you.",
+  encrypt: 'Encrypted on-chain so only the partner can read it.',
+};
+
+/**
+ * Step-by-step collection of the data a perk needs at claim time, one field
+ * per step followed by a review step
+ */
+export const ClaimMetadataWizard: React.FC<ClaimMetadataWizardProps> = ({
+  perk,
+  fields,
+  onSubmit,
+  onClose,
+}) => {
+  const currentAccount = useCurrentAccount();
+  const discord = useDiscordAuth();
+
+  // Prefill from connected accounts
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map(field => [
+      field.key,
+      field.type === 'discord' ? discord.user?.id ?? ''
+        : field.type === 'wallet' ? currentAccount?.address ?? ''
+        : field.type === 'email' ? discord.user?.email ?? ''
+        : '',
+    ]))
+  );
+  const [step, setStep] = useState(0);
+  const [fieldError, setFieldError] = useState<string | null>(null);
+
+  const field = fields[step];
+  const isReview = step === fields.length;
+
+  const next = () => {
+    if (field) {
+      const error = validateMetadataField(field, values[field.key] ?? '');
+      if (error) {
+        setFieldError(error);
+        return;
+      }
+    }
+    setFieldError(null);
+    setStep(step + 1);
+  };
+
+  const back = () => {
+    setFieldError(null);
+    setStep(Math.max(0, step - 1));
+  };
+
+  const fillDiscordId = () => {
+    if (!field || !discord.user) return;
+    setValues(prev => ({ ...prev, [field.key]: discord.user!.id }));
+    setFieldError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        className="max-w-md w-full rounded-2xl shadow-2xl border"
+        style={{
+          backgroundColor: 'var(--color-background-card)',
+          borderColor: 'var(--color-border)',
+        }}
+      >
+        {/* Header */}
+        <div className="p-6 border-b" style={{ borderColor: 'var(--color-border)' }}>
+          <h2 className="text-xl font-bold" style={{ color: 'var(--color-text)' }}>
+            {perk.name}
+          </h2>
+          <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+            {isReview ? 'Review your details' : `Step ${step + 1} of ${fields.length + 1}`}
+          </p>
+        </div>
+
+        {/* Field Step */}
+        {field && (
+          <div className="p-6 space-y-3">
+            <label className="block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+              {field.label}
+              {field.required === false && (
+                <span className="ml-1" style={{ color: 'var(--color-text-muted)' }}>(optional)</span>
+              )}
+            </label>
+            <input
+              type={INPUT_TYPES[field.type]}
+              value={values[field.key] ?? ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && next()}
+              placeholder={field.placeholder}
+              className="w-full px-3 py-2 rounded-lg border text-sm"
+              style={{
+                backgroundColor: 'var(--color-background)',
+                borderColor: fieldError ? 'var(--color-error)' : 'var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+              autoFocus
+            />
+            {fieldError && (
+              <p className="text-xs" style={{ color: 'var(--color-error)' }}>{fieldError}</p>
+            )}
+
+            {/* Discord account shortcut */}
+            {field.type === 'discord' && BRAND_CONFIG.features.showDiscordIntegration && (
+              <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {discord.user ? (
+                  <button onClick={fillDiscordId} className="underline">
+                    Use connected account {discord.user.username}
+                  </button>
+                ) : (
+                  <button onClick={discord.connect} className="underline">
+                    Connect Discord to fill this in (you'll return here and can claim again)
+                  </button>
+                )}
+              </div>
+            )}
+
+            {field.privacy && (
+              <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                🔒 {PRIVACY_NOTES[field.privacy]}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Review Step */}
+        {isReview && (
+          <div className="p-6 space-y-3">
+            {fields.map(reviewField => (
+              <div key={reviewField.key} className="flex items-start justify-between gap-4 text-sm">
+                <span style={{ color: 'var(--color-text-muted)' }}>{reviewField.label}</span>
+                <span className="font-medium break-all text-right" style={{ color: 'var(--color-text)' }}>
+                  {values[reviewField.key]?.trim() || '—'}
+                  {reviewField.privacy && ' 🔒'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-between gap-3 p-6 border-t" style={{ borderColor: 'var(--color-border)' }}>
+          <button
+            onClick={step === 0 ? onClose : back}
+            className="px-4 py-2 rounded-lg text-sm border transition-colors hover:opacity-80"
+            style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-muted)' }}
+          >
+            {step === 0 ? 'Cancel' : 'Back'}
+          </button>
+          <button
+            onClick={isReview ? () => onSubmit(values) : next}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+          >
+            {isReview ? 'Continue' : 'Next'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { PerkDefinition } from '../types/index';
+import type { ClaimPreview } from '../services/claimPreview';
+import { formatPoints, formatSui } from '../utils/format';
+
+interface ClaimPreviewModalProps {
+  perk: PerkDefinition;
+  preview: ClaimPreview | null; // null while the simulation runs
+  error: string | null; // Simulation itself failed (RPC error)
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export const ClaimPreviewModal: React.FC<ClaimPreviewModalProps> = ({
+  perk,
+  preview,
+  error,
+  onConfirm,
+  onClose,
+}) => {
+  const rows: [string, string][] = preview ? [
+    ['Points to deduct', `${formatPoints(preview.pointsToDeduct)} αP`],
+    ['Estimated gas', formatSui(preview.gasEstimateMist)],
+    ['Balance after claim', `${formatPoints(preview.resultingBalance)} αP`],
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        className="max-w-md w-full rounded-2xl shadow-2xl border"
+        style={{
+          backgroundColor: 'var(--color-background-card)',
+          borderColor: 'var(--color-border)',
+        }}
+      >
+        {/* Header */}
+        <div className="p-6 border-b" style={{ borderColor: 'var(--color-border)' }}>
+          <h2 className="text-xl font-bold" style={{ color: 'var(--color-text)' }}>
+            Confirm Claim
+          </h2>
+          <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+            {perk.name}
+          </p>
+        </div>
+
+        {/* Simulation Result */}
+        <div className="p-6 space-y-3">
+          {!preview && !error && (
+            <div className="text-sm text-center py-4" style={{ color: 'var(--color-text-muted)' }}>
+              Simulating transaction...
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm" style={{ color: 'var(--color-warning)' }}>
+              Couldn't simulate this claim ({error}). You can still continue to your wallet.
+            </div>
+          )}
+
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex items-center justify-between text-sm">
+              <span style={{ color: 'var(--color-text-muted)' }}>{label}</span>
+              <span className="font-medium" style={{ color: 'var(--color-text)' }}>{value}</span>
+            </div>
+          ))}
+
+          {preview?.failureReason && (
+            <div
+              className="text-sm p-3 rounded-lg border"
+              style={{ borderColor: 'var(--color-error)', color: 'var(--color-error)' }}
+            >
+              ❌ {preview.failureReason}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 p-6 border-t" style={{ borderColor: 'var(--color-border)' }}>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm border transition-colors hover:opacity-80"
+            style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-muted)' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={(!preview && !error) || preview?.willSucceed === false}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+          >
+            Confirm in Wallet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
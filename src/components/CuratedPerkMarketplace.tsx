@@ -1,12 +1,24 @@
-import React, { useState, useMemo } from 'react';
-import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import React, { useState, useMemo, useRef } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
 import { toast } from 'react-hot-toast';
 import { usePerkMarketplace } from '../hooks/usePerkMarketplace';
-import type { PerkDefinition } from '../types/index';
+import { useTransactionTracker } from '../hooks/useTransactionTracker';
+import type { PerkDefinition, PointsAmount } from '../types/index';
 import { BRAND_CONFIG } from '../config/brand';
 import { SUI_CONFIG } from '../config/sui';
-import { buildClaimPerkQuotaFreeTransaction } from '../utils/transactions';
+import { buildClaimPerksTransaction, getPerkClaimTransaction } from '../utils/transactions';
+import { encodeClaimMetadata, getPerkMetadataFields, saveRevealCodes } from '../utils/claimMetadata';
+import type { EncodedClaimMetadata } from '../utils/claimMetadata';
+import { formatPoints } from '../utils/format';
+import { comparePoints } from '../utils/points';
+import { previewCartTransaction, previewClaimTransaction } from '../services/claimPreview';
+import type { CartPreview, ClaimPreview } from '../services/claimPreview';
+import { useCart, useMarketplaceStore } from '../stores/marketplaceStore';
 import { PerkFilterModal } from './PerkFilterModal';
+import { ClaimPreviewModal } from './ClaimPreviewModal';
+import { ClaimMetadataWizard } from './ClaimMetadataWizard';
+import { CartModal } from './CartModal';
+import type { CartEntry } from './CartModal';
 
 // Export the PerkDefinition type for use in other components
 export type { PerkDefinition };
@@ -15,11 +27,18 @@ interface CuratedPerkMarketplaceProps {
   className?: string;
 }
 
+interface CartClaim {
+  perk: PerkDefinition;
+  metadata?: EncodedClaimMetadata;
+}
+
 export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({ 
   className = "" 
 }) => {
   const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { trackClaim } = useTransactionTracker();
   
   const {
     perks,
@@ -28,12 +47,38 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
     partnerNames,
     claimedPerks,
     userAlphaPoints,
+    isLoadingMore,
     refresh,
+    markPerksClaimed,
     hasPerkClaimed,
+    isPerkUpdated,
     canAffordPerk,
   } = usePerkMarketplace();
 
   const [purchaseLoading, setPurchaseLoading] = useState(false);
+
+  // Perk whose claim data is being collected, for a claim or the cart
+  const [metadataPerk, setMetadataPerk] = useState<PerkDefinition | null>(null);
+  const [metadataForCart, setMetadataForCart] = useState(false);
+
+  // Claim confirmation - the dry-run result for the perk being claimed
+  const [previewPerk, setPreviewPerk] = useState<PerkDefinition | null>(null);
+  const [claimMetadata, setClaimMetadata] = useState<EncodedClaimMetadata | undefined>(undefined);
+  const [claimPreview, setClaimPreview] = useState<ClaimPreview | null>(null);
+  const [claimPreviewError, setClaimPreviewError] = useState<string | null>(null);
+  const previewIdRef = useRef(0);
+
+  // Cart - checked out as one transaction. `cartClaims` holds the encoded
+  // claims once checkout starts, so the signed transaction matches the
+  // simulated one.
+  const cart = useCart();
+  const addToCart = useMarketplaceStore(state => state.addToCart);
+  const removeFromCart = useMarketplaceStore(state => state.removeFromCart);
+  const clearCart = useMarketplaceStore(state => state.clearCart);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [cartClaims, setCartClaims] = useState<CartClaim[] | null>(null);
+  const [cartPreview, setCartPreview] = useState<CartPreview | null>(null);
+  const [cartPreviewError, setCartPreviewError] = useState<string | null>(null);
   
   // Filtering and sorting state
   const [activeTags, setActiveTags] = useState<Set<string>>(new Set());
@@ -98,8 +143,8 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
   };
 
   // Get Alpha Points price
-  const getAlphaPointsPrice = (perk: PerkDefinition) => {
-    return perk.current_alpha_points_price || 0;
+  const getAlphaPointsPrice = (perk: PerkDefinition): PointsAmount => {
+    return perk.current_alpha_points_price ?? 0n;
   };
 
   // Get USDC price for display
@@ -118,9 +163,9 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
           const bTime = b.last_price_update_timestamp_ms || 0;
           return bTime - aTime; // Newest first
         case 'price-low':
-          return getAlphaPointsPrice(a) - getAlphaPointsPrice(b);
+          return comparePoints(getAlphaPointsPrice(a), getAlphaPointsPrice(b));
         case 'price-high':
-          return getAlphaPointsPrice(b) - getAlphaPointsPrice(a);
+          return comparePoints(getAlphaPointsPrice(b), getAlphaPointsPrice(a));
         case 'owned':
           const aOwned = hasPerkClaimed(a.id) ? 1 : 0;
           const bOwned = hasPerkClaimed(b.id) ? 1 : 0;
@@ -194,73 +239,245 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
     hasPerkClaimed
   ]);
 
-  // Handle perk purchase
+  // Why the perk can't be claimed right now, or null when it can
+  const getClaimBlockReason = (perk: PerkDefinition): string | null => {
+    if (!currentAccount?.address) return BRAND_CONFIG.content.connectWalletText;
+    if (!canAffordPerk(perk)) return "Insufficient Alpha Points";
+
+    const maxUsesPerClaim = perk.max_uses_per_claim || perk.maxUsesPerClaim;
+    if (hasPerkClaimed(perk.id) && !maxUsesPerClaim) return "You've already claimed this perk";
+    if (isPerkExpired(perk)) return "This perk has expired";
+    return null;
+  };
+
+  // Handle perk purchase - collect any claim data, then simulate the claim
+  // and ask for confirmation before the wallet prompt opens
   const handlePerkPurchase = async (perk: PerkDefinition) => {
-    if (!currentAccount?.address) {
-      toast.error(BRAND_CONFIG.content.connectWalletText);
+    const blockReason = getClaimBlockReason(perk);
+    if (blockReason) {
+      toast.error(blockReason);
       return;
     }
 
-    if (!canAffordPerk(perk)) {
-      toast.error("Insufficient Alpha Points");
+    if (getPerkMetadataFields(perk).length > 0) {
+      setMetadataForCart(false);
+      setMetadataPerk(perk);
       return;
     }
 
-    const maxUsesPerClaim = perk.max_uses_per_claim || perk.maxUsesPerClaim;
-    if (hasPerkClaimed(perk.id) && !maxUsesPerClaim) {
-      toast.error("You've already claimed this perk");
+    await startClaimPreview(perk);
+  };
+
+  // Claim data is collected up front, so checkout is a single step
+  const handleAddToCart = (perk: PerkDefinition) => {
+    const blockReason = getClaimBlockReason(perk);
+    if (blockReason) {
+      toast.error(blockReason);
       return;
     }
 
-    if (isPerkExpired(perk)) {
-      toast.error("This perk has expired");
+    if (getPerkMetadataFields(perk).length > 0) {
+      setMetadataForCart(true);
+      setMetadataPerk(perk);
       return;
     }
 
-    setPurchaseLoading(true);
+    addToCart(perk.id);
+    toast.success(`🛒 Added "${perk.name}" to your cart`);
+  };
 
+  const handleMetadataSubmit = async (perk: PerkDefinition, values: Record<string, string>) => {
+    setMetadataPerk(null);
+
+    if (metadataForCart) {
+      addToCart(perk.id, values);
+      toast.success(`🛒 Added "${perk.name}" to your cart`);
+      return;
+    }
+
+    let metadata: EncodedClaimMetadata;
     try {
-      const transaction = buildClaimPerkQuotaFreeTransaction(perk.id);
-      
-      if (currentAccount?.address) {
-        transaction.setSender(currentAccount.address);
-      }
+      metadata = await encodeClaimMetadata(getPerkMetadataFields(perk), values);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to prepare claim data');
+      return;
+    }
+    await startClaimPreview(perk, metadata);
+  };
 
-      const result = await signAndExecute({
-        transaction,
-      });
+  const startClaimPreview = async (perk: PerkDefinition, metadata?: EncodedClaimMetadata) => {
+    if (!currentAccount?.address) return;
+
+    const previewId = ++previewIdRef.current;
+    setPreviewPerk(perk);
+    setClaimMetadata(metadata);
+    setClaimPreview(null);
+    setClaimPreviewError(null);
 
-      if (result?.digest) {
-        toast.success(
-          `✅ Successfully purchased "${perk.name}"!\n\n🔗 Transaction: ${result.digest.substring(0, 8)}...`,
-          {
-            duration: 5000,
-            style: { whiteSpace: 'pre-line' }
-          }
-        );
-
-        // Refresh data after successful purchase
-        setTimeout(() => {
-          refresh();
-        }, 2000);
+    try {
+      const preview = await previewClaimTransaction(suiClient, getPerkClaimTransaction(perk.id, perk, metadata), {
+        sender: currentAccount.address,
+        price: getAlphaPointsPrice(perk),
+        balance: userAlphaPoints,
+      });
+      // Ignore results for a preview that was closed or replaced
+      if (previewId === previewIdRef.current) setClaimPreview(preview);
+    } catch (error) {
+      if (previewId === previewIdRef.current) {
+        setClaimPreviewError(error instanceof Error ? error.message : 'Simulation failed');
       }
-    } catch (error: any) {
-      // Perk purchase failed
-      
-      if (error.message?.includes('EPerkNotActive')) {
-        toast.error('❌ This perk is not currently active.');
-      } else if (error.message?.includes('EMaxClaimsReached')) {
-        toast.error('❌ This perk has reached its maximum claims limit.');
-      } else if (error.message?.includes('Insufficient balance')) {
-        toast.error('❌ You don\'t have enough Alpha Points.');
-      } else {
-        toast.error(`❌ Purchase failed: ${error.message || 'Unknown error'}`);
+    }
+  };
+
+  const closeClaimPreview = () => {
+    previewIdRef.current++;
+    setPreviewPerk(null);
+    setClaimMetadata(undefined);
+    setClaimPreview(null);
+    setClaimPreviewError(null);
+  };
+
+  // Committed claim data can only be verified with these codes
+  const showRevealCodes = (codes: string[]) => {
+    if (codes.length === 0) return;
+    toast(
+      `🔑 Keep your reveal code${codes.length !== 1 ? 's' : ''} - the partner needs ${codes.length !== 1 ? 'them' : 'it'} to verify your details:\n\n${codes.join('\n')}`,
+      { duration: 20000, style: { whiteSpace: 'pre-line', wordBreak: 'break-all' } }
+    );
+  };
+
+  // Sign and execute a confirmed claim
+  const executePerkClaim = async (perk: PerkDefinition, metadata?: EncodedClaimMetadata) => {
+    if (!currentAccount?.address) return;
+
+    closeClaimPreview();
+    setPurchaseLoading(true);
+
+    const transaction = getPerkClaimTransaction(perk.id, perk, metadata);
+    transaction.setSender(currentAccount.address);
+
+    await trackClaim({
+      address: currentAccount.address,
+      label: `"${perk.name}"`,
+      points: getAlphaPointsPrice(perk),
+      perkIds: [perk.id],
+      execute: () => signAndExecute({ transaction }),
+      // Keep the reveal codes as soon as there's a digest, so they survive a
+      // confirmation timeout
+      onSubmitted: digest => {
+        if (!metadata?.revealCodes) return;
+        saveRevealCodes(perk.id, digest, metadata.revealCodes);
+        showRevealCodes(Object.values(metadata.revealCodes));
+      },
+      markOwned: markPerksClaimed,
+    });
+
+    setPurchaseLoading(false);
+  };
+
+  // Cart items whose perks are still listed, in cart order
+  const cartEntries = useMemo((): (CartEntry & { metadataValues?: Record<string, string> })[] =>
+    cart.flatMap(item => {
+      const perk = perks.find(p => p.id === item.perkId);
+      return perk ? [{
+        perk,
+        price: getAlphaPointsPrice(perk),
+        hasClaimData: item.metadataValues !== undefined,
+        metadataValues: item.metadataValues,
+      }] : [];
+    }),
+    [cart, perks]
+  );
+
+  const resetCartCheckout = () => {
+    previewIdRef.current++;
+    setCartClaims(null);
+    setCartPreview(null);
+    setCartPreviewError(null);
+  };
+
+  const closeCart = () => {
+    resetCartCheckout();
+    setIsCartOpen(false);
+  };
+
+  const handleRemoveFromCart = (perkId: string) => {
+    removeFromCart(perkId);
+    // The simulated transaction no longer matches the cart
+    resetCartCheckout();
+  };
+
+  // Encode every item's claim data, then simulate the combined claim
+  const startCartPreview = async () => {
+    if (!currentAccount?.address) return;
+
+    const previewId = ++previewIdRef.current;
+    setCartPreview(null);
+    setCartPreviewError(null);
+
+    let claims: CartClaim[];
+    try {
+      claims = await Promise.all(cartEntries.map(async ({ perk, metadataValues }) => ({
+        perk,
+        metadata: metadataValues ? await encodeClaimMetadata(getPerkMetadataFields(perk), metadataValues) : undefined,
+      })));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to prepare claim data');
+      return;
+    }
+    if (previewId !== previewIdRef.current) return;
+    setCartClaims(claims);
+
+    try {
+      const preview = await previewCartTransaction(suiClient, buildCartTransaction(claims), {
+        sender: currentAccount.address,
+        prices: claims.map(claim => getAlphaPointsPrice(claim.perk)),
+        balance: userAlphaPoints,
+      });
+      if (previewId === previewIdRef.current) setCartPreview(preview);
+    } catch (error) {
+      if (previewId === previewIdRef.current) {
+        setCartPreviewError(error instanceof Error ? error.message : 'Simulation failed');
       }
-    } finally {
-      setPurchaseLoading(false);
     }
   };
 
+  const buildCartTransaction = (claims: CartClaim[]) =>
+    buildClaimPerksTransaction(claims.map(({ perk, metadata }) => ({ perkDefinitionId: perk.id, metadata })));
+
+  // Sign and execute a confirmed cart checkout
+  const executeCartCheckout = async (claims: CartClaim[]) => {
+    if (!currentAccount?.address) return;
+
+    setPurchaseLoading(true);
+
+    const transaction = buildCartTransaction(claims);
+    transaction.setSender(currentAccount.address);
+
+    const outcome = await trackClaim({
+      address: currentAccount.address,
+      label: `${claims.length} perk${claims.length !== 1 ? 's' : ''}`,
+      points: claims.reduce((sum, claim) => sum + getAlphaPointsPrice(claim.perk), 0n),
+      perkIds: claims.map(claim => claim.perk.id),
+      commandLabels: claims.map(claim => claim.perk.name),
+      execute: () => signAndExecute({ transaction }),
+      onSubmitted: digest => {
+        showRevealCodes(claims.flatMap(({ perk, metadata }) => {
+          if (!metadata?.revealCodes) return [];
+          saveRevealCodes(perk.id, digest, metadata.revealCodes);
+          return Object.values(metadata.revealCodes).map(code => `${perk.name}: ${code}`);
+        }));
+      },
+      markOwned: markPerksClaimed,
+    });
+
+    if (outcome) {
+      clearCart();
+      closeCart();
+    }
+    setPurchaseLoading(false);
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -425,6 +642,14 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
           </div>
           
           <div className="flex items-center space-x-4">
+            {isLoadingMore && (
+              <span 
+                className="text-sm animate-pulse"
+                style={{ color: 'var(--color-text-muted)' }}
+              >
+                ⏳ Loading more perks...
+              </span>
+            )}
             <button
               onClick={refresh}
               disabled={isLoading}
@@ -438,6 +663,26 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
             >
               {isLoading ? '⏳' : '🔄'} Refresh
             </button>
+            <button
+              onClick={() => setIsCartOpen(true)}
+              className="flex items-center px-4 py-2 rounded-lg font-medium transition-colors border"
+              style={{
+                backgroundColor: 'var(--color-background)',
+                borderColor: 'var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+              title="Claim several perks in one transaction"
+            >
+              🛒 Cart
+              {cartEntries.length > 0 && (
+                <span 
+                  className="ml-2 text-white text-xs px-2 py-1 rounded-full"
+                  style={{ backgroundColor: 'var(--color-primary)' }}
+                >
+                  {cartEntries.length}
+                </span>
+              )}
+            </button>
             
 
           </div>
@@ -521,6 +766,8 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
         ) : (
           displayedPerks.map((perk, index) => {
             const isPerkClaimed = hasPerkClaimed(perk.id);
+            const isUpdated = isPerkUpdated(perk.id);
+            const isInCart = cart.some(item => item.perkId === perk.id);
             const alphaPrice = getAlphaPointsPrice(perk);
             const usdcPrice = getUsdcPrice(perk);
             const companyName = partnerNames.get(perk.creator_partner_cap_id) || 'Unknown Partner';
@@ -530,7 +777,7 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
                 key={perk.id}
                 className={`p-4 rounded-2xl backdrop-blur-lg shadow-lg border transition-all duration-200 hover:scale-[1.02] ${
                   isPerkClaimed ? 'ring-2 ring-opacity-50' : ''
-                }`}
+                } ${isUpdated ? 'ring-1 ring-[var(--color-primary)]/60' : ''}`}
                 style={{
                   backgroundColor: isPerkClaimed 
                     ? 'var(--color-success)15' 
@@ -568,6 +815,18 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
                               title="Already Claimed"
                             />
                           )}
+                          {isUpdated && (
+                            <span 
+                              className="text-xs font-medium px-2 py-0.5 rounded-full animate-pulse"
+                              style={{ 
+                                backgroundColor: 'var(--color-primary)20',
+                                color: 'var(--color-primary)',
+                              }}
+                              title="This perk just changed on-chain"
+                            >
+                              Updated
+                            </span>
+                          )}
                         </h3>
                         {BRAND_CONFIG.features.showPartnerNames && (
                           <div 
@@ -609,7 +868,7 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
                           isPerkClaimed && !(perk.max_uses_per_claim || perk.maxUsesPerClaim)
                             ? 'You have already claimed this perk'
                             : !canAffordPerk(perk)
-                            ? `You need ${alphaPrice.toLocaleString()} αP to purchase this perk`
+                            ? `You need ${formatPoints(alphaPrice)} αP to purchase this perk`
                             : isPerkExpired(perk)
                             ? 'This perk has expired'
                             : 'Click to purchase this perk'
@@ -627,9 +886,25 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
                         ) : isPerkExpired(perk) ? (
                           "⏰ Expired"
                         ) : (
-                          `${alphaPrice.toLocaleString()} αP`
+                          `${formatPoints(alphaPrice)} αP`
                         )}
                       </button>
+
+                      {/* Add to Cart */}
+                      <button
+                        onClick={() => handleAddToCart(perk)}
+                        disabled={purchaseLoading || isInCart || getClaimBlockReason(perk) !== null}
+                        className="px-3 py-2 rounded-lg border transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        style={{
+                          backgroundColor: 'var(--color-background)',
+                          borderColor: 'var(--color-border)',
+                          color: 'var(--color-text)',
+                        }}
+                        title={isInCart ? 'Already in your cart' : 'Add to cart'}
+                        aria-label={`Add ${perk.name} to cart`}
+                      >
+                        {isInCart ? '✓' : '🛒'}
+                      </button>
                     </div>
                     
                     {/* Perk Description */}
@@ -689,6 +964,43 @@ export const CuratedPerkMarketplace: React.FC<CuratedPerkMarketplaceProps> = ({
         )}
       </div>
 
+      {/* Claim Data */}
+      {metadataPerk && (
+        <ClaimMetadataWizard
+          perk={metadataPerk}
+          fields={getPerkMetadataFields(metadataPerk)}
+          onSubmit={(values) => handleMetadataSubmit(metadataPerk, values)}
+          onClose={() => setMetadataPerk(null)}
+        />
+      )}
+
+      {/* Claim Confirmation */}
+      {previewPerk && (
+        <ClaimPreviewModal
+          perk={previewPerk}
+          preview={claimPreview}
+          error={claimPreviewError}
+          onConfirm={() => executePerkClaim(previewPerk, claimMetadata)}
+          onClose={closeClaimPreview}
+        />
+      )}
+
+      {/* Cart */}
+      {isCartOpen && (
+        <CartModal
+          entries={cartEntries}
+          balance={userAlphaPoints}
+          isReviewing={cartClaims !== null}
+          preview={cartPreview}
+          error={cartPreviewError}
+          isCheckingOut={purchaseLoading}
+          onRemove={handleRemoveFromCart}
+          onReview={startCartPreview}
+          onConfirm={() => cartClaims && executeCartCheckout(cartClaims)}
+          onClose={closeCart}
+        />
+      )}
+
       {/* Filter Modal */}
       {isFilterModalOpen && (
         <PerkFilterModal 
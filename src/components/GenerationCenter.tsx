@@ -4,6 +4,7 @@ import { Button } from './ui/Button';
 import { Skeleton } from './ui/Skeleton';
 import { useGenerations, type GenerationOpportunity } from '../hooks/useGenerations';
 import { toast } from 'react-hot-toast';
+import { decodeTransactionError } from '../utils/moveErrors';
 
 // ===============================================
 // GENERATION CENTER COMPONENT
@@ -80,8 +81,8 @@ export const GenerationCenter: React.FC = () => {
     try {
       await executeGeneration(generation.id);
       toast.success(`Started: ${generation.name}`);
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to start generation');
+    } catch (error) {
+      toast.error(decodeTransactionError(error).message);
     }
   };
 
@@ -0,0 +1,37 @@
+import React from 'react';
+import { getAvailableNetworks, getNetworkDisplayName } from '../config/sui';
+import type { SuiNetwork } from '../config/sui';
+import { useActiveNetwork } from '../hooks/useNetwork';
+
+/**
+ * Header dropdown for switching networks. Renders nothing unless the brand
+ * allows switching and more than one network is configured.
+ */
+export const NetworkSelector: React.FC = () => {
+  const [network, setNetwork] = useActiveNetwork();
+  const networks = getAvailableNetworks();
+
+  if (networks.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      value={network}
+      onChange={(e) => setNetwork(e.target.value as SuiNetwork)}
+      className="text-sm px-2 py-1 rounded-lg border"
+      style={{
+        backgroundColor: 'var(--color-background-card)',
+        borderColor: 'var(--color-border)',
+        color: 'var(--color-text)'
+      }}
+      aria-label="Sui network"
+    >
+      {networks.map(option => (
+        <option key={option} value={option}>
+          {getNetworkDisplayName(option)}
+        </option>
+      ))}
+    </select>
+  );
+};
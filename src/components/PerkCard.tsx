@@ -15,11 +15,14 @@ import { Button } from './ui/Button';
 import { useMarketplaceStore } from '../stores/marketplaceStore';
 import type { PerkData } from '../stores/marketplaceStore';
 import { brandConfig } from '../config/brand';
+import { formatPoints } from '../utils/format';
+import { pointsShortfall } from '../utils/points';
 
 interface PerkCardProps {
   perk: PerkData;
   onClaim: (perkId: string) => void;
   isLoading?: boolean;
+  isUpdated?: boolean; // Perk changed on-chain since it was first shown
   gridView?: 'compact' | 'comfortable' | 'spacious';
 }
 
@@ -27,6 +30,7 @@ export const PerkCard: React.FC<PerkCardProps> = ({
   perk, 
   onClaim, 
   isLoading = false,
+  isUpdated = false,
   gridView = 'comfortable'
 }) => {
   const [imageError, setImageError] = useState(false);
@@ -52,10 +56,6 @@ export const PerkCard: React.FC<PerkCardProps> = ({
   const claimPercentage = maxClaims ? (claimCount / maxClaims) * 100 : 0;
   const isLowStock = maxClaims && (maxClaims - claimCount) <= 5;
   
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat().format(price);
-  };
-  
   const formatTimeRemaining = (expiresAt: Date) => {
     const now = new Date();
     const diff = expiresAt.getTime() - now.getTime();
@@ -126,6 +126,7 @@ export const PerkCard: React.FC<PerkCardProps> = ({
         relative group cursor-pointer
         ${isExpired ? 'opacity-75 grayscale' : ''}
         ${isClaimed ? 'ring-2 ring-[var(--color-success)]/50' : ''}
+        ${isUpdated && !isClaimed ? 'ring-1 ring-[var(--color-primary)]/60' : ''}
       `}
     >
       {/* Status Badges */}
@@ -148,6 +149,17 @@ export const PerkCard: React.FC<PerkCardProps> = ({
           </div>
         )}
         
+        {isUpdated && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex items-center gap-1 bg-[var(--color-primary)]/80 text-white px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm"
+          >
+            <SparklesIcon className="w-3 h-3" />
+            Updated
+          </motion.div>
+        )}
+        
         {isLowStock && !isExpired && (
           <div className="flex items-center gap-1 bg-orange-500/90 text-white px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm">
             <SparklesIcon className="w-3 h-3" />
@@ -223,7 +235,7 @@ export const PerkCard: React.FC<PerkCardProps> = ({
         {/* Price Badge */}
         <div className="absolute bottom-3 left-3">
           <div className="bg-black/60 backdrop-blur-md text-white px-3 py-1 rounded-full text-sm font-bold">
-            {formatPrice(perk.price)} {brandConfig.features.showUSDPricing ? 'AP' : 'Points'}
+            {formatPoints(perk.price ?? 0n)} {brandConfig.features.showUSDPricing ? 'AP' : 'Points'}
           </div>
         </div>
       </div>
@@ -321,7 +333,7 @@ export const PerkCard: React.FC<PerkCardProps> = ({
           ) : isExpired ? (
             'Expired'
           ) : !canAfford ? (
-            `Need ${formatPrice(perk.price - userBalance)} more points`
+            `Need ${formatPoints(pointsShortfall(userBalance, perk.price ?? 0n))} more points`
           ) : (
             'Claim Perk'
           )}
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { SUI_CONFIG } from '../config/sui';
+import { SUI_CONFIG, isPerkManagerType } from '../config/sui';
 import { Button } from './ui/Button';
+import { useRpcHealth } from '../hooks/useRpcHealth';
+import { getAllOwnedObjects } from '../services/ownedObjects';
 import { testChainConnection, testAlphaPointsQuery } from '../utils/chainTest';
 
 /**
@@ -15,6 +17,7 @@ export const PerkDebugHelper: React.FC = () => {
   const suiClient = useSuiClient();
   const [debugInfo, setDebugInfo] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const rpcHealth = useRpcHealth();
 
   const runDebugQuery = async () => {
     if (!currentAccount?.address) return;
@@ -29,31 +32,23 @@ export const PerkDebugHelper: React.FC = () => {
       // Test Alpha Points balance
       const alphaPointsTest = await testAlphaPointsQuery(currentAccount.address);
       
-      // Get all objects owned by user (using the existing suiClient from hook)
-      const allObjects = await suiClient.getOwnedObjects({
-        owner: currentAccount.address,
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
+      // Get every page of objects owned by user (using the existing suiClient from hook)
+      const allObjects = await getAllOwnedObjects(suiClient, currentAccount.address);
       
-      console.log('📦 Debug: Found', allObjects.data.length, 'total objects');
+      console.log('📦 Debug: Found', allObjects.length, 'total objects');
       
-      // Filter for different types
-      const claimedPerks = allObjects.data.filter((obj: any) => {
-        const objectType = obj.data?.type;
-        return objectType && objectType.includes('ClaimedPerk');
-      });
+      // Filter for different types across every registered package version
+      const claimedPerks = allObjects.filter((obj: any) => 
+        isPerkManagerType(obj.data?.type, 'ClaimedPerk')
+      );
       
-      const perkDefinitions = allObjects.data.filter((obj: any) => {
-        const objectType = obj.data?.type;
-        return objectType && objectType.includes('PerkDefinition');
-      });
+      const perkDefinitions = allObjects.filter((obj: any) => 
+        isPerkManagerType(obj.data?.type, 'PerkDefinition')
+      );
       
-      const alpha4Objects = allObjects.data.filter((obj: any) => {
+      const alpha4Objects = allObjects.filter((obj: any) => {
         const objectType = obj.data?.type;
-        return objectType && objectType.includes(SUI_CONFIG.packageIds.perkManager);
+        return objectType && SUI_CONFIG.packageRegistry.versions.some(packageId => objectType.startsWith(`${packageId}::`));
       });
       
       const debugData = {
@@ -62,13 +57,13 @@ export const PerkDebugHelper: React.FC = () => {
         alphaPointsBalance: alphaPointsTest,
         
         // Object counts
-        totalObjects: allObjects.data.length,
+        totalObjects: allObjects.length,
         claimedPerks: claimedPerks.length,
         perkDefinitions: perkDefinitions.length,
         alpha4Objects: alpha4Objects.length,
         
         // Sample data
-        sampleObjects: allObjects.data.slice(0, 5).map((obj: any) => ({
+        sampleObjects: allObjects.slice(0, 5).map((obj: any) => ({
           id: obj.data?.objectId,
           type: obj.data?.type,
           hasContent: !!obj.data?.content,
@@ -81,9 +76,10 @@ export const PerkDebugHelper: React.FC = () => {
         })),
         
         // Configuration
-        packageId: SUI_CONFIG.packageIds.perkManager,
+        packageId: SUI_CONFIG.packageRegistry.transactionTarget,
+        packageVersions: SUI_CONFIG.packageRegistry.versions,
         network: SUI_CONFIG.network,
-        rpcUrl: SUI_CONFIG.rpcUrl,
+        rpcUrl: rpcHealth.find(endpoint => endpoint.isActive)?.url ?? SUI_CONFIG.rpcUrl,
         userAddress: currentAccount.address
       };
       
@@ -123,6 +119,39 @@ export const PerkDebugHelper: React.FC = () => {
         </Button>
       </div>
       
+      <div className="bg-white p-4 rounded border">
+        <h4 className="font-semibold mb-2">RPC Endpoints</h4>
+        {SUI_CONFIG.demoMode ? (
+          <div className="text-sm text-gray-600">Demo mode - requests are answered by the in-memory chain</div>
+        ) : (
+          <div className="text-sm space-y-2">
+            {rpcHealth.map(endpoint => (
+              <div key={endpoint.url} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span>{endpoint.isHealthy ? '🟢' : '🔴'}</span>
+                <span className="font-mono break-all">{endpoint.url}</span>
+                {endpoint.isActive && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800">active</span>
+                )}
+                <span className="text-gray-600">
+                  {endpoint.totalRequests} requests, {endpoint.totalFailures} failed
+                  {endpoint.lastLatencyMs !== null && ` · ${endpoint.lastLatencyMs}ms`}
+                </span>
+                {!endpoint.isHealthy && endpoint.cooldownUntil && (
+                  <span className="text-gray-600">
+                    retry after {new Date(endpoint.cooldownUntil).toLocaleTimeString()}
+                  </span>
+                )}
+                {endpoint.lastError && (
+                  <div className="w-full text-red-600 text-xs">
+                    Last error{endpoint.lastErrorAt && ` (${new Date(endpoint.lastErrorAt).toLocaleTimeString()})`}: {endpoint.lastError}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      
       {debugInfo && (
         <div className="space-y-4">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -149,6 +178,7 @@ export const PerkDebugHelper: React.FC = () => {
             <div className="text-sm space-y-1">
               <div><strong>User Address:</strong> {debugInfo.userAddress}</div>
               <div><strong>Package ID:</strong> {debugInfo.packageId}</div>
+              <div><strong>Package Versions:</strong> {debugInfo.packageVersions?.join(', ')}</div>
               <div><strong>Network:</strong> {debugInfo.network}</div>
               <div><strong>RPC URL:</strong> {debugInfo.rpcUrl}</div>
               
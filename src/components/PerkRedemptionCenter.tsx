@@ -1,9 +1,39 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useQueryClient } from '@tanstack/react-query';
+import type { TransactionEffects } from '@mysten/sui/client';
 import { Button } from './ui/Button';
 import { Skeleton } from './ui/Skeleton';
-import { BRAND_CONFIG } from '../config/brand';
-import { SUI_CONFIG } from '../config/sui';
+import { getPerkManagerReadPackageIds } from '../config/sui';
+import { getObjectLoader } from '../services/objectLoader';
+import { getClaimedPerkDefinitionId, getClaimedPerkMetadata, getClaimedPerkUsage, getOwnedClaimedPerks } from '../services/ownedObjects';
+import type { ClaimedPerkUsage } from '../services/ownedObjects';
+import {
+  fulfillOpportunityRedemption,
+  fulfillRedemption,
+  getFulfillmentProvider,
+  getOpportunityFulfillmentProvider,
+} from '../services/fulfillment';
+import { parsePerkDefinition, describePerkParseIssues } from '../utils/perkDefinition';
+import { decodeClaimMetadata } from '../utils/claimMetadata';
+import { formatPointsCompact } from '../utils/format';
+import {
+  checkOpportunity,
+  describeOpportunityBlock,
+  getConfiguredOpportunities,
+  getOpportunityAvailability,
+  getOpportunityRedemptionCounts,
+  recordOpportunityRedemption,
+} from '../utils/redemptionOpportunities';
+import type { OpportunityCheck } from '../utils/redemptionOpportunities';
+import type { RequirementResult } from '../utils/opportunityRequirements';
+import { decodeTransactionError, getTransactionErrorMessage } from '../utils/moveErrors';
+import { buildConsumePerkTransaction } from '../utils/transactions';
+import { useTransactionTracker } from '../hooks/useTransactionTracker';
+import { useAlphaPoints } from '../hooks/useAlphaPoints';
+import { redemptionSupportQuery, useRedemptionSupport } from '../hooks/useRedemptionSupport';
+import { claimHistoryQueryKey } from '../hooks/useClaimHistory';
+import type { OwnedPerk, PerkDefinitionModel, RedemptionOpportunity, RedemptionResult, RedemptionType } from '../types/index';
 import { toast } from 'react-hot-toast';
 import { Swiper, SwiperSlide } from 'swiper/react';
 import { Navigation, Pagination, Autoplay } from 'swiper/modules';
@@ -11,251 +41,14 @@ import 'swiper/css';
 import 'swiper/css/navigation';
 import 'swiper/css/pagination';
 
-// Types for owned perks
-interface OwnedPerk {
-  id: string;
-  perkDefinitionId: string;
-  name: string;
-  description: string;
-  perkType: string;
-  icon: string;
-  status: string;
-  remainingUses: number | null;
-  claimTimestamp: number;
-  tags: string[];
-  redemptionType: RedemptionType;
-}
-
-// Different redemption patterns
-type RedemptionType = 
-  | 'voucher_code'      // Generate a code for external use
-  | 'digital_delivery'  // Deliver digital content immediately
-  | 'service_booking'   // Book a service/appointment
-  | 'membership_access' // Grant access to exclusive content
-  | 'physical_claim';   // Claim physical goods
-
-// Redemption result types
-interface RedemptionResult {
-  success: boolean;
-  type: RedemptionType;
-  data: {
-    code?: string;
-    downloadUrl?: string;
-    bookingId?: string;
-    accessToken?: string;
-    claimTicket?: string;
-    instructions?: string;
-    expiresAt?: number;
-  };
-  message: string;
-}
-
-// Mock redemption opportunities - require owning specific perks
-interface RedemptionOpportunity {
-  id: string;
-  title: string;
-  description: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  icon: string;
-  rewardType: string;
-  rewardDescription: string;
-  requirements: {
-    perkName: string;
-    perkType: string;
-    quantity: number;
-    description: string;
-  }[];
-  estimatedValue: string;
-  timeToRedeem: string;
-}
-
-// ===============================================
-// TEMPLATE REDEMPTION OPPORTUNITIES
-// ===============================================
-// These are examples for deployers to customize for their own redemption portals.
-// Each template shows different object consumption patterns:
-//
-// 1. Single Object → Service Exchange
-// 2. Multiple Same Objects → Upgraded Service  
-// 3. Mixed Object Types → Complex Reward
-// 4. Voucher Bundle → Physical Product
-// 5. High Volume → Exclusive Access
-// 6. Cross-Category → Hybrid Reward
-//
-// DEPLOYER INSTRUCTIONS:
-// - Replace these templates with your own redemption opportunities
-// - Update perkType to match your curated marketplace objects
-// - Customize titles, descriptions, rewards, and requirements
-// - Set realistic estimatedValue and timeToRedeem
-// - Test requirement checking logic with your object types
-//
-// OBJECT CONSUMPTION PATTERNS:
-// - perkType: 'membership_access', 'voucher_code', 'digital_delivery', 'service_booking', 'physical_claim'
-// - quantity: How many objects of this type are required
-// - Requirements are AND logic (all must be met)
-// ===============================================
-
-const TEMPLATE_REDEMPTION_OPPORTUNITIES: RedemptionOpportunity[] = [
-  // TEMPLATE 1: Single Object → Service Exchange
-  {
-    id: 'single-object-service',
-    title: '1-on-1 Strategy Session',
-    description: 'Exchange your consultation perk for a personalized strategy session',
-    difficulty: 'Easy',
-    icon: '💼',
-    rewardType: 'Professional Service',
-    rewardDescription: '60-minute 1-on-1 strategy session with founder + follow-up summary',
-    requirements: [
-      {
-        perkName: 'Strategy Consultation Pass',
-        perkType: 'service_booking',
-        quantity: 1,
-        description: 'Exchange 1 Strategy Consultation Pass'
-      }
-    ],
-    estimatedValue: '$300',
-    timeToRedeem: 'Instant booking'
-  },
-
-  // TEMPLATE 2: Multiple Same Objects → Upgraded Service
-  {
-    id: 'multiple-same-upgrade',
-    title: 'VIP Discord Access',
-    description: 'Combine multiple membership perks for premium community access',
-    difficulty: 'Medium',
-    icon: '🌟',
-    rewardType: 'Enhanced Access',
-    rewardDescription: 'VIP Discord channels + Weekly AMA access + Priority DMs',
-    requirements: [
-      {
-        perkName: 'Community Membership',
-        perkType: 'membership_access',
-        quantity: 3,
-        description: 'Combine 3 Community Membership perks'
-      }
-    ],
-    estimatedValue: '$150',
-    timeToRedeem: '1-2 minutes'
-  },
-
-  // TEMPLATE 3: Mixed Object Types → Complex Reward
-  {
-    id: 'mixed-objects-complex',
-    title: 'Complete Business Package',
-    description: 'Ultimate business growth package requiring diverse perk portfolio',
-    difficulty: 'Hard',
-    icon: '🚀',
-    rewardType: 'Business Package',
-    rewardDescription: 'Brand audit + Website review + 3-month mentorship + Exclusive tools access',
-    requirements: [
-      {
-        perkName: 'Business Consultation',
-        perkType: 'service_booking',
-        quantity: 1,
-        description: 'Business consultation service'
-      },
-      {
-        perkName: 'Premium Tools Access',
-        perkType: 'digital_delivery',
-        quantity: 2,
-        description: '2 different premium tool licenses'
-      },
-      {
-        perkName: 'VIP Membership',
-        perkType: 'membership_access',
-        quantity: 1,
-        description: 'Active VIP membership status'
-      }
-    ],
-    estimatedValue: '$2,500',
-    timeToRedeem: '24-48 hours'
-  },
-
-  // TEMPLATE 4: Voucher Bundle → Physical Product
-  {
-    id: 'voucher-to-physical',
-    title: 'Exclusive Merchandise Bundle',
-    description: 'Convert your discount vouchers into premium branded merchandise',
-    difficulty: 'Medium',
-    icon: '📦',
-    rewardType: 'Physical Bundle',
-    rewardDescription: 'Premium hoodie + Signed book + Exclusive stickers + Limited edition mug',
-    requirements: [
-      {
-        perkName: 'Discount Vouchers',
-        perkType: 'voucher_code',
-        quantity: 5,
-        description: 'Redeem 5 discount voucher codes'
-      }
-    ],
-    estimatedValue: '$200',
-    timeToRedeem: '3-5 business days'
-  },
-
-  // TEMPLATE 5: High Volume → Exclusive Access
-  {
-    id: 'high-volume-exclusive',
-    title: 'Founder\'s Inner Circle',
-    description: 'Elite tier requiring significant perk investment for ultimate access',
-    difficulty: 'Hard',
-    icon: '👑',
-    rewardType: 'Elite Membership',
-    rewardDescription: 'Monthly founder dinners + Private Slack + Equity opportunities + Personal intro network',
-    requirements: [
-      {
-        perkName: 'Any Membership Perks',
-        perkType: 'membership_access',
-        quantity: 10,
-        description: 'Accumulate 10 membership perks of any type'
-      },
-      {
-        perkName: 'Service Experiences',
-        perkType: 'service_booking',
-        quantity: 3,
-        description: 'Complete 3 different service bookings'
-      }
-    ],
-    estimatedValue: '$10,000+',
-    timeToRedeem: 'Manual review (2-7 days)'
-  },
-
-  // TEMPLATE 6: Cross-Category → Hybrid Reward
-  {
-    id: 'cross-category-hybrid',
-    title: 'Creator Economy Accelerator',
-    description: 'Perfect for content creators - combines tools, mentorship, and promotion',
-    difficulty: 'Hard',
-    icon: '🎬',
-    rewardType: 'Creator Package',
-    rewardDescription: 'Video editing tools + Content strategy session + Social media promotion + Revenue optimization',
-    requirements: [
-      {
-        perkName: 'Digital Tools',
-        perkType: 'digital_delivery',
-        quantity: 3,
-        description: '3 different digital tool/software licenses'
-      },
-      {
-        perkName: 'Strategy Session',
-        perkType: 'service_booking',
-        quantity: 1,
-        description: '1 strategy/consultation booking'
-      },
-      {
-        perkName: 'Promotional Credits',
-        perkType: 'voucher_code',
-        quantity: 2,
-        description: '2 promotional/advertising credit vouchers'
-      }
-    ],
-    estimatedValue: '$1,200',
-    timeToRedeem: '1-2 weeks setup'
-  }
-];
-
 export const PerkRedemptionCenter: React.FC = () => {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
+  const queryClient = useQueryClient();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { trackTransaction } = useTransactionTracker();
+  const { points } = useAlphaPoints();
+  const { support: redemptionSupport } = useRedemptionSupport();
   
   const [ownedPerks, setOwnedPerks] = useState<OwnedPerk[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -264,11 +57,27 @@ export const PerkRedemptionCenter: React.FC = () => {
   const [redemptionResult, setRedemptionResult] = useState<RedemptionResult | null>(null);
   const [filterType, setFilterType] = useState<RedemptionType | 'all'>('all');
   const [activeSlide, setActiveSlide] = useState(0);
+  const [opportunityRedemptions, setOpportunityRedemptions] = useState<Record<string, number>>({});
+
+  // Ended opportunities drop off; upcoming ones show locked
+  const opportunities = useMemo(
+    () => getConfiguredOpportunities().filter(opportunity => getOpportunityAvailability(opportunity) !== 'ended'),
+    []
+  );
+
+  const opportunityChecks = useMemo(() => {
+    const context = { ownedPerks, pointsBalance: points.available, now: Date.now() };
+    return new Map(opportunities.map(opportunity => [
+      opportunity.id,
+      checkOpportunity(opportunity, context, opportunityRedemptions[opportunity.id] ?? 0),
+    ]));
+  }, [opportunities, ownedPerks, points.available, opportunityRedemptions]);
 
   // Fetch owned perks on mount and account change
   useEffect(() => {
     if (currentAccount?.address) {
       fetchOwnedPerks();
+      setOpportunityRedemptions(getOpportunityRedemptionCounts(currentAccount.address));
     }
   }, [currentAccount?.address]);
 
@@ -278,109 +87,69 @@ export const PerkRedemptionCenter: React.FC = () => {
     setIsLoading(true);
     try {
       console.log('🔍 Fetching owned perks for:', currentAccount.address);
-      console.log('🔧 Using package:', SUI_CONFIG.packageIds.perkManager);
+      console.log('🔧 Using packages:', getPerkManagerReadPackageIds());
       
-      const packageId = SUI_CONFIG.packageIds.perkManager;
-      
-      // Query for ClaimedPerk objects owned by the user (using same pattern as marketplace)
-      let ownedObjects = await suiClient.getOwnedObjects({
-        owner: currentAccount.address,
-        filter: {
-          StructType: `${packageId}::perk_manager::ClaimedPerk`
-        },
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-
-      console.log('📦 Found', ownedObjects.data.length, 'owned perk objects using specific filter');
+      // Walk every page of owned objects - the redemption center must list all claims
+      const ownedObjects = await getOwnedClaimedPerks(suiClient, currentAccount.address);
 
-      // If no results, try querying all objects and filtering (fallback mechanism like marketplace)
-      if (ownedObjects.data.length === 0) {
-        console.log('🔄 No results with specific filter, trying fallback method...');
-        const allObjects = await suiClient.getOwnedObjects({
-          owner: currentAccount.address,
-          options: {
-            showContent: true,
-            showType: true,
-          },
-        });
-        
-        // Filter for ClaimedPerk objects
-        const claimedPerkObjects = allObjects.data.filter((obj: any) => {
-          const objectType = obj.data?.type;
-          return objectType && objectType.includes('ClaimedPerk');
-        });
-        
-        console.log('📦 Found', claimedPerkObjects.length, 'claimed perk objects using fallback method');
-        
-        ownedObjects = {
-          data: claimedPerkObjects,
-          hasNextPage: false,
-          nextCursor: null
-        };
-      }
+      console.log('📦 Found', ownedObjects.length, 'owned perk objects');
 
-      const perks: OwnedPerk[] = [];
+      const loader = getObjectLoader(suiClient);
 
-      for (const obj of ownedObjects.data) {
+      // Resolve all definitions together so the loader can batch them
+      const results = await Promise.all(ownedObjects.map(async (obj): Promise<OwnedPerk | null> => {
         if (obj.data?.content && obj.data.content.dataType === 'moveObject') {
           const fields = (obj.data.content as any).fields;
           
           try {
-            // Try different possible field names (same as marketplace)
-            const perkDefinitionId = fields.perk_definition_id || fields.perkDefinitionId || fields.definition_id;
+            const perkDefinitionId = getClaimedPerkDefinitionId(obj);
             
             if (!perkDefinitionId) {
               console.warn('No perk definition ID found in object:', obj.data.objectId, fields);
-              continue;
+              return null;
             }
             
             console.log('🎯 Processing claimed perk:', obj.data.objectId, 'for definition:', perkDefinitionId);
             
             // Get the perk definition details
-            const perkDefResponse = await suiClient.getObject({
-              id: perkDefinitionId,
-              options: { showContent: true }
-            });
+            const perkDefResponse = await loader.load(perkDefinitionId);
 
-            if (perkDefResponse.data?.content && 'fields' in perkDefResponse.data.content) {
-              const defFields = perkDefResponse.data.content.fields as any;
-              
-              // Parse remaining uses properly
-              let remainingUses = null;
-              if (fields.remaining_uses !== undefined && fields.remaining_uses !== null) {
-                remainingUses = typeof fields.remaining_uses === 'number' 
-                  ? fields.remaining_uses 
-                  : parseInt(fields.remaining_uses) || null;
-              }
+            const parsed = parsePerkDefinition(perkDefResponse);
+
+            if (parsed.ok) {
+              const definition = parsed.perk;
+              const usage = getClaimedPerkUsage(obj);
+              const metadata = getClaimedPerkMetadata(obj);
               
               const perk: OwnedPerk = {
                 id: obj.data.objectId,
                 perkDefinitionId: perkDefinitionId,
-                name: defFields.name || 'Unknown Perk',
-                description: defFields.description || 'No description available',
-                perkType: defFields.perk_type || 'Unknown',
-                icon: '🎁', // Default icon, could be enhanced
-                status: fields.status || 'ACTIVE',
-                remainingUses: remainingUses,
+                partnerCapId: definition.creatorPartnerCapId,
+                name: definition.name,
+                description: definition.description || 'No description available',
+                perkType: definition.perkType,
+                icon: definition.icon ?? '🎁',
+                status: usage?.status ?? 'ACTIVE',
+                remainingUses: usage?.remainingUses ?? null,
                 claimTimestamp: parseInt(fields.claim_timestamp_ms) || Date.now(),
-                tags: defFields.tags || [],
-                redemptionType: determineRedemptionType(defFields)
+                tags: definition.tags,
+                redemptionType: determineRedemptionType(definition),
+                metadata: metadata ? decodeClaimMetadata(metadata.key, metadata.value) : {}
               };
               
               console.log('✅ Successfully processed perk:', perk.name, 'Type:', perk.redemptionType);
-              perks.push(perk);
+              return perk;
             } else {
-              console.warn('Failed to get perk definition content for:', perkDefinitionId);
+              console.warn('Invalid perk definition', perkDefinitionId, describePerkParseIssues(parsed.issues));
             }
           } catch (error) {
             console.warn('Failed to fetch perk definition for:', fields.perk_definition_id, error);
           }
         }
-      }
+        return null;
+      }));
 
+      const perks = results.filter((perk): perk is OwnedPerk => perk !== null);
       setOwnedPerks(perks);
       console.log('✅ Processed', perks.length, 'total owned perks');
       
@@ -397,10 +166,10 @@ export const PerkRedemptionCenter: React.FC = () => {
   };
 
   // Determine redemption type based on perk characteristics
-  const determineRedemptionType = (defFields: any): RedemptionType => {
-    const name = (defFields.name || '').toLowerCase();
-    const description = (defFields.description || '').toLowerCase();
-    const tags = defFields.tags || [];
+  const determineRedemptionType = (definition: PerkDefinitionModel): RedemptionType => {
+    const name = definition.name.toLowerCase();
+    const description = definition.description.toLowerCase();
+    const tags = definition.tags;
     
     // Check tags first for explicit redemption types
     if (tags.some((tag: string) => tag.toLowerCase().includes('voucher') || tag.toLowerCase().includes('code'))) {
@@ -446,35 +215,100 @@ export const PerkRedemptionCenter: React.FC = () => {
     return ownedPerks.filter(perk => perk.redemptionType === filterType);
   }, [ownedPerks, filterType]);
 
-  // Handle perk redemption
+  // Apply a use to one owned perk; returns a rollback for optimistic updates
+  const updateOwnedPerk = (perkId: string, usage: ClaimedPerkUsage | null) => {
+    const previous = ownedPerks.find(perk => perk.id === perkId);
+    setOwnedPerks(perks => usage
+      ? perks.map(perk => perk.id === perkId ? { ...perk, ...usage } : perk)
+      : perks.filter(perk => perk.id !== perkId)); // null: the object is gone
+    return () => {
+      if (!previous) return;
+      setOwnedPerks(perks => perks.some(perk => perk.id === perkId)
+        ? perks.map(perk => perk.id === perkId ? previous : perk)
+        : [...perks, previous]);
+    };
+  };
+
+  // Usage after one more use, as the contract applies it
+  const usageAfterUse = (perk: OwnedPerk): ClaimedPerkUsage => {
+    if (perk.remainingUses === null) return { status: perk.status, remainingUses: null };
+    const remainingUses = Math.max(perk.remainingUses - 1, 0);
+    return { status: remainingUses === 0 ? 'FULLY_CONSUMED' : perk.status, remainingUses };
+  };
+
+  // The claimed perk's state after a confirmed consume, or null if the
+  // contract deleted it
+  const readUsageAfterConsume = async (perkId: string, effects: TransactionEffects): Promise<ClaimedPerkUsage | null> => {
+    if (effects.deleted?.some(deleted => deleted.objectId === perkId)) return null;
+    const object = await suiClient.getObject({ id: perkId, options: { showContent: true } });
+    return getClaimedPerkUsage(object);
+  };
+
+  // Handle perk redemption - the use is consumed on-chain before fulfillment
   const handleRedeemPerk = async (perk: OwnedPerk) => {
     if (!currentAccount?.address) return;
+    if (perk.status !== 'ACTIVE' || perk.remainingUses === 0) {
+      toast.error(getTransactionErrorMessage('no_uses_remaining'));
+      return;
+    }
+    // Check before consuming, so a use is never spent with no one to fulfil it
+    if (!getFulfillmentProvider(perk)) {
+      toast.error('This perk cannot be redeemed here yet. Please contact support.');
+      return;
+    }
     
     setIsRedeeming(true);
     setSelectedPerk(perk);
     setRedemptionResult(null);
     
     try {
+      // Don't send a call the deployed package doesn't have
+      const support = await queryClient.fetchQuery(redemptionSupportQuery(suiClient));
+      if (!support.supported) {
+        toast.error(support.reason);
+        return;
+      }
+
       console.log('🎁 Redeeming perk:', perk.name, 'Type:', perk.redemptionType);
-      
-      // Simulate different redemption patterns
-      const result = await simulateRedemption(perk);
+
+      const transaction = buildConsumePerkTransaction(perk.id);
+      transaction.setSender(currentAccount.address);
+
+      const consumed = await trackTransaction({
+        label: `"${perk.name}" redemption`,
+        execute: () => signAndExecute({ transaction }),
+        applyOptimistic: () => updateOwnedPerk(perk.id, usageAfterUse(perk)),
+        successMessage: `${perk.name} redeemed`,
+      });
+      if (!consumed) return;
+
+      void queryClient.invalidateQueries({ queryKey: claimHistoryQueryKey(currentAccount.address) });
+      let usage: ClaimedPerkUsage | null = usageAfterUse(perk);
+      try {
+        usage = await readUsageAfterConsume(perk.id, consumed.effects);
+        updateOwnedPerk(perk.id, usage);
+      } catch {
+        // The optimistic use stands until the next fetch
+      }
+
+      // Only hand off once the use is on-chain
+      const result = await fulfillRedemption({
+        claimedPerk: { ...perk, ...(usage ?? { status: 'FULLY_CONSUMED', remainingUses: 0 }) },
+        wallet: currentAccount.address,
+        digest: consumed.digest,
+        metadata: perk.metadata,
+      });
       
       if (result.success) {
         setRedemptionResult(result);
-        toast.success(`${perk.name} redeemed successfully!`);
-        
-        // Refresh owned perks to reflect changes
-        setTimeout(() => {
-          fetchOwnedPerks();
-        }, 2000);
       } else {
-        toast.error(result.message);
+        // The use is already recorded, so give the user something to quote
+        toast.error(`${result.message} Your redemption is recorded on-chain - contact support with transaction ${consumed.digest}.`, { duration: 15000 });
       }
       
     } catch (error) {
       console.error('❌ Redemption failed:', error);
-      toast.error('Redemption failed. Please try again.');
+      toast.error(decodeTransactionError(error).message);
     } finally {
       setIsRedeeming(false);
       setSelectedPerk(null);
@@ -486,10 +320,19 @@ export const PerkRedemptionCenter: React.FC = () => {
     if (!currentAccount?.address) return;
     
     // Check if user meets requirements
-    const meetsRequirements = checkRedemptionRequirements(opportunity, ownedPerks);
+    const check = checkOpportunity(
+      opportunity,
+      { ownedPerks, pointsBalance: points.available, now: Date.now() },
+      opportunityRedemptions[opportunity.id] ?? 0
+    );
     
-    if (!meetsRequirements.canRedeem) {
-      toast.error(`Missing requirements: ${meetsRequirements.missingRequirements.join(', ')}`);
+    if (!check.canRedeem) {
+      toast.error(describeOpportunityBlock(check));
+      return;
+    }
+    const provider = getOpportunityFulfillmentProvider(opportunity);
+    if (!provider) {
+      toast.error('This reward cannot be redeemed here yet. Please contact support.');
       return;
     }
     
@@ -498,144 +341,26 @@ export const PerkRedemptionCenter: React.FC = () => {
     try {
       console.log('🏆 Redeeming opportunity:', opportunity.title);
       
-      // Simulate opportunity redemption (2-5 seconds based on difficulty)
-      const redeemTime = opportunity.difficulty === 'Easy' ? 1000 : 
-                        opportunity.difficulty === 'Medium' ? 3000 : 5000;
-      
-      await new Promise(resolve => setTimeout(resolve, redeemTime));
-      
-      const result: RedemptionResult = {
-        success: true,
-        type: 'membership_access', // Default type for opportunities
-        data: {
-          code: `${opportunity.id.toUpperCase()}-${Math.random().toString(36).substring(2, 8)}`,
-          instructions: `Your ${opportunity.title} has been activated! ${opportunity.rewardDescription}`,
-          expiresAt: Date.now() + (365 * 24 * 60 * 60 * 1000) // 1 year
-        },
-        message: `${opportunity.title} redeemed successfully!`
-      };
+      // The provider issues the reward and has the final say on the limit
+      const result = await fulfillOpportunityRedemption({
+        opportunity,
+        wallet: currentAccount.address,
+        ownedPerkIds: ownedPerks.filter(perk => perk.status === 'ACTIVE').map(perk => perk.id),
+      });
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
       
+      recordOpportunityRedemption(currentAccount.address, opportunity.id);
+      setOpportunityRedemptions(getOpportunityRedemptionCounts(currentAccount.address));
       setRedemptionResult(result);
-      toast.success(`🏆 ${opportunity.title} unlocked!`);
-      
-      // Refresh owned perks
-      setTimeout(() => {
-        fetchOwnedPerks();
-      }, 2000);
-      
-    } catch (error) {
-      console.error('❌ Opportunity redemption failed:', error);
-      toast.error('Redemption failed. Please try again.');
+      toast.success(provider.preview ? `🧪 ${opportunity.title} preview generated` : `🏆 ${opportunity.title} unlocked!`);
     } finally {
       setIsRedeeming(false);
     }
   };
 
-  // Check if user meets redemption requirements
-  const checkRedemptionRequirements = (opportunity: RedemptionOpportunity, userPerks: OwnedPerk[]) => {
-    const missingRequirements: string[] = [];
-    
-    for (const requirement of opportunity.requirements) {
-      const matchingPerks = userPerks.filter(perk => 
-        perk.redemptionType === requirement.perkType && 
-        perk.status === 'ACTIVE'
-      );
-      
-      if (matchingPerks.length < requirement.quantity) {
-        const missing = requirement.quantity - matchingPerks.length;
-        missingRequirements.push(`${missing}x ${requirement.perkName}`);
-      }
-    }
-    
-    return {
-      canRedeem: missingRequirements.length === 0,
-      missingRequirements
-    };
-  };
-
-  // Simulate different redemption patterns (in real implementation, this would interact with your backend)
-  const simulateRedemption = async (perk: OwnedPerk): Promise<RedemptionResult> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    switch (perk.redemptionType) {
-      case 'voucher_code':
-        return {
-          success: true,
-          type: 'voucher_code',
-          data: {
-            code: generateVoucherCode(),
-            instructions: 'Use this code at checkout to receive your discount or item.',
-            expiresAt: Date.now() + (30 * 24 * 60 * 60 * 1000) // 30 days
-          },
-          message: 'Voucher code generated successfully!'
-        };
-        
-      case 'digital_delivery':
-        return {
-          success: true,
-          type: 'digital_delivery',
-          data: {
-            downloadUrl: `https://downloads.${BRAND_CONFIG.company.name.toLowerCase()}.com/${generateDownloadId()}`,
-            instructions: 'Your digital content is ready for download. Link expires in 7 days.',
-            expiresAt: Date.now() + (7 * 24 * 60 * 60 * 1000) // 7 days
-          },
-          message: 'Digital content delivered successfully!'
-        };
-        
-      case 'service_booking':
-        return {
-          success: true,
-          type: 'service_booking',
-          data: {
-            bookingId: generateBookingId(),
-            instructions: 'Your service slot has been reserved. You will receive a confirmation email shortly.',
-            expiresAt: Date.now() + (90 * 24 * 60 * 60 * 1000) // 90 days to use
-          },
-          message: 'Service booking confirmed!'
-        };
-        
-      case 'membership_access':
-        return {
-          success: true,
-          type: 'membership_access',
-          data: {
-            accessToken: generateAccessToken(),
-            instructions: 'Your premium access has been activated. Use this token to access exclusive content.',
-            expiresAt: Date.now() + (365 * 24 * 60 * 60 * 1000) // 1 year
-          },
-          message: 'Premium access granted!'
-        };
-        
-      case 'physical_claim':
-        return {
-          success: true,
-          type: 'physical_claim',
-          data: {
-            claimTicket: generateClaimTicket(),
-            instructions: 'Please provide this claim ticket and your ID when collecting your item. Processing time: 5-7 business days.',
-            expiresAt: Date.now() + (60 * 24 * 60 * 60 * 1000) // 60 days to claim
-          },
-          message: 'Physical item claim initiated!'
-        };
-        
-      default:
-        return {
-          success: false,
-          type: perk.redemptionType,
-          data: {},
-          message: 'Unknown redemption type'
-        };
-    }
-  };
-
-  // Helper functions for generating redemption data
-  const generateVoucherCode = () => `${BRAND_CONFIG.company.name.substring(0, 3).toUpperCase()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-  const generateDownloadId = () => Math.random().toString(36).substring(2, 15);
-  const generateBookingId = () => `BK-${Date.now().toString().slice(-8)}`;
-  const generateAccessToken = () => `AT-${Math.random().toString(36).substring(2, 20).toUpperCase()}`;
-  const generateClaimTicket = () => `CT-${Date.now().toString().slice(-6)}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
-
   // Get redemption type display info
   const getRedemptionTypeInfo = (type: RedemptionType) => {
     switch (type) {
@@ -706,6 +431,19 @@ export const PerkRedemptionCenter: React.FC = () => {
             </Button>
           </div>
 
+          {redemptionSupport && !redemptionSupport.supported && (
+            <div 
+              className="p-3 rounded-lg border text-sm"
+              style={{ 
+                backgroundColor: 'rgba(245, 158, 11, 0.1)',
+                borderColor: 'rgba(245, 158, 11, 0.3)',
+                color: 'var(--color-text)'
+              }}
+            >
+              ⚠️ {redemptionSupport.reason}
+            </div>
+          )}
+
           {/* Filter Tabs for Owned Perks */}
           <div className="flex flex-wrap gap-2">
             {(['all', 'voucher_code', 'digital_delivery', 'service_booking', 'membership_access', 'physical_claim'] as const).map((type) => {
@@ -819,6 +557,7 @@ export const PerkRedemptionCenter: React.FC = () => {
                     typeInfo={typeInfo}
                     onRedeem={() => handleRedeemPerk(perk)}
                     isRedeeming={isRedeeming && selectedPerk?.id === perk.id}
+                    redemptionUnavailable={redemptionSupport?.supported === false}
                   />
                 );
               })}
@@ -826,106 +565,109 @@ export const PerkRedemptionCenter: React.FC = () => {
           )}
         </div>
 
-        {/* Right Side: Redemption Opportunities */}
-        <div className="space-y-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-xl font-semibold mb-1" style={{ color: 'var(--color-text)' }}>
-                🏆 Redemption Opportunities
-              </h3>
-              <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
-                Combine your perks for exclusive rewards
-              </p>
-            </div>
-            <div className="flex items-center gap-4">
-              <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-                {activeSlide + 1} of {TEMPLATE_REDEMPTION_OPPORTUNITIES.length} templates • Swipe to explore
+        {/* Right Side: Redemption Opportunities - hidden when none are configured */}
+        {opportunities.length > 0 && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-semibold mb-1" style={{ color: 'var(--color-text)' }}>
+                  🏆 Redemption Opportunities
+                </h3>
+                <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                  Combine your perks for exclusive rewards
+                </p>
               </div>
+              <div className="flex items-center gap-4">
+                <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                  {activeSlide + 1} of {opportunities.length} • Swipe to explore
+                </div>
               
-              {/* Navigation Arrows positioned under "swipe to explore" text */}
-              <div className="flex items-center gap-2">
-                <button
-                  className="swiper-button-prev-custom w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all duration-200 hover:scale-110"
-                  style={{
-                    backgroundColor: 'var(--color-background-card)',
-                    borderColor: 'var(--color-primary)',
-                    color: 'var(--color-primary)',
-                  }}
-                >
-                  <span className="text-sm">‹</span>
-                </button>
-                <button
-                  className="swiper-button-next-custom w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all duration-200 hover:scale-110"
-                  style={{
-                    backgroundColor: 'var(--color-background-card)',
-                    borderColor: 'var(--color-primary)',
-                    color: 'var(--color-primary)',
-                  }}
-                >
-                  <span className="text-sm">›</span>
-                </button>
+                {/* Navigation Arrows positioned under "swipe to explore" text */}
+                <div className="flex items-center gap-2">
+                  <button
+                    className="swiper-button-prev-custom w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all duration-200 hover:scale-110"
+                    style={{
+                      backgroundColor: 'var(--color-background-card)',
+                      borderColor: 'var(--color-primary)',
+                      color: 'var(--color-primary)',
+                    }}
+                  >
+                    <span className="text-sm">‹</span>
+                  </button>
+                  <button
+                    className="swiper-button-next-custom w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all duration-200 hover:scale-110"
+                    style={{
+                      backgroundColor: 'var(--color-background-card)',
+                      borderColor: 'var(--color-primary)',
+                      color: 'var(--color-primary)',
+                    }}
+                  >
+                    <span className="text-sm">›</span>
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Redemption Opportunities Swiper */}
-          <div className="redemption-swiper-container">
-            <style>{`
-              .redemption-opportunities-swiper .swiper-pagination {
-                bottom: 8px !important;
-              }
-              .redemption-opportunities-swiper .swiper-pagination-bullet {
-                opacity: 0.5;
-                transition: all 0.3s ease;
-              }
-              .redemption-opportunities-swiper .swiper-pagination-bullet-active {
-                opacity: 1;
-                transform: scale(1.2);
-              }
-              .redemption-opportunities-swiper .swiper-button-prev,
-              .redemption-opportunities-swiper .swiper-button-next {
-                display: none;
-              }
-            `}</style>
-            <Swiper
-              modules={[Navigation, Pagination, Autoplay]}
-              spaceBetween={20}
-              slidesPerView={1}
-              navigation={{
-                nextEl: '.swiper-button-next-custom',
-                prevEl: '.swiper-button-prev-custom',
-              }}
-              pagination={{
-                clickable: true,
-                dynamicBullets: true,
-              }}
-              autoplay={{
-                delay: 8000,
-                disableOnInteraction: false,
-                pauseOnMouseEnter: true,
-              }}
-              loop={TEMPLATE_REDEMPTION_OPPORTUNITIES.length > 1}
-              onSlideChange={(swiper) => setActiveSlide(swiper.realIndex)}
-              className="redemption-opportunities-swiper"
-              style={{ 
-                paddingBottom: '40px',
-                '--swiper-navigation-color': 'var(--color-primary)',
-                '--swiper-pagination-color': 'var(--color-primary)',
-                '--swiper-pagination-bullet-inactive-color': 'var(--color-border)',
-              } as React.CSSProperties}
-            >
-              {TEMPLATE_REDEMPTION_OPPORTUNITIES.map((opportunity) => (
-                <SwiperSlide key={opportunity.id}>
-                  <RedemptionOpportunityCard
-                    opportunity={opportunity}
-                    ownedPerks={ownedPerks}
-                    onRedeem={() => handleRedemptionOpportunity(opportunity)}
-                  />
-                </SwiperSlide>
-              ))}
-            </Swiper>
+            {/* Redemption Opportunities Swiper */}
+            <div className="redemption-swiper-container">
+              <style>{`
+                .redemption-opportunities-swiper .swiper-pagination {
+                  bottom: 8px !important;
+                }
+                .redemption-opportunities-swiper .swiper-pagination-bullet {
+                  opacity: 0.5;
+                  transition: all 0.3s ease;
+                }
+                .redemption-opportunities-swiper .swiper-pagination-bullet-active {
+                  opacity: 1;
+                  transform: scale(1.2);
+                }
+                .redemption-opportunities-swiper .swiper-button-prev,
+                .redemption-opportunities-swiper .swiper-button-next {
+                  display: none;
+                }
+              `}</style>
+              <Swiper
+                modules={[Navigation, Pagination, Autoplay]}
+                spaceBetween={20}
+                slidesPerView={1}
+                navigation={{
+                  nextEl: '.swiper-button-next-custom',
+                  prevEl: '.swiper-button-prev-custom',
+                }}
+                pagination={{
+                  clickable: true,
+                  dynamicBullets: true,
+                }}
+                autoplay={{
+                  delay: 8000,
+                  disableOnInteraction: false,
+                  pauseOnMouseEnter: true,
+                }}
+                loop={opportunities.length > 1}
+                onSlideChange={(swiper) => setActiveSlide(swiper.realIndex)}
+                className="redemption-opportunities-swiper"
+                style={{ 
+                  paddingBottom: '40px',
+                  '--swiper-navigation-color': 'var(--color-primary)',
+                  '--swiper-pagination-color': 'var(--color-primary)',
+                  '--swiper-pagination-bullet-inactive-color': 'var(--color-border)',
+                } as React.CSSProperties}
+              >
+                {opportunities.map((opportunity) => (
+                  <SwiperSlide key={opportunity.id}>
+                    <RedemptionOpportunityCard
+                      opportunity={opportunity}
+                      check={opportunityChecks.get(opportunity.id)!}
+                      preview={getOpportunityFulfillmentProvider(opportunity)?.preview === true}
+                      onRedeem={() => handleRedemptionOpportunity(opportunity)}
+                    />
+                  </SwiperSlide>
+                ))}
+              </Swiper>
+            </div>
           </div>
-        </div>
+        )}
 
       </div>
 
@@ -946,15 +688,17 @@ interface PerkRedemptionCardProps {
   typeInfo: { icon: string; label: string; color: string };
   onRedeem: () => void;
   isRedeeming: boolean;
+  redemptionUnavailable: boolean; // The package can't consume perks
 }
 
 const PerkRedemptionCard: React.FC<PerkRedemptionCardProps> = ({
   perk,
   typeInfo,
   onRedeem,
-  isRedeeming
+  isRedeeming,
+  redemptionUnavailable
 }) => {
-  const canRedeem = perk.status === 'ACTIVE' && (perk.remainingUses === null || perk.remainingUses > 0);
+  const canRedeem = !redemptionUnavailable && perk.status === 'ACTIVE' && (perk.remainingUses === null || perk.remainingUses > 0);
   
   return (
     <div 
@@ -1037,46 +781,80 @@ const PerkRedemptionCard: React.FC<PerkRedemptionCardProps> = ({
   );
 };
 
+// One requirement of an opportunity; groups list their parts indented
+const RequirementRow: React.FC<{ result: RequirementResult }> = ({ result }) => {
+  const { isMet } = result;
+  const badge = result.kind === 'points'
+    ? `${formatPointsCompact(result.current)}/${formatPointsCompact(result.target)}`
+    : result.kind === 'not' ? null : `${result.current}/${result.target}`;
+  const isGroup = result.kind === 'allOf' || result.kind === 'anyOf';
+
+  return (
+    <div 
+      className="p-3 rounded-lg border transition-all duration-200"
+      style={{ 
+        backgroundColor: isMet 
+          ? 'rgba(16, 185, 129, 0.1)' 
+          : 'rgba(239, 68, 68, 0.1)',
+        borderColor: isMet ? 'rgba(16, 185, 129, 0.3)' : 'rgba(239, 68, 68, 0.3)'
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-1">
+            <span className="text-sm">{isMet ? '✅' : '❌'}</span>
+            <div className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+              {result.label}
+            </div>
+          </div>
+          {result.description && (
+            <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              {result.description}
+            </div>
+          )}
+        </div>
+        
+        {badge && (
+          <div 
+            className="text-sm font-bold px-2 py-1 rounded-lg ml-3"
+            style={{ 
+              backgroundColor: isMet 
+                ? 'rgba(16, 185, 129, 0.2)' 
+                : 'rgba(239, 68, 68, 0.2)',
+              color: isMet ? '#059669' : '#DC2626'
+            }}
+          >
+            {badge}
+          </div>
+        )}
+      </div>
+
+      {isGroup && (
+        <div className="space-y-2 mt-2 pl-3">
+          {result.children.map((child, index) => (
+            <RequirementRow key={index} result={child} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Redemption result modal component
 // Redemption opportunity card component
 interface RedemptionOpportunityCardProps {
   opportunity: RedemptionOpportunity;
-  ownedPerks: OwnedPerk[];
+  check: OpportunityCheck;
+  preview: boolean; // Fulfilled by the local stand-in
   onRedeem: () => void;
 }
 
 const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
   opportunity,
-  ownedPerks,
+  check,
+  preview,
   onRedeem
 }) => {
-  const requirementCheck = useMemo(() => {
-    const missingRequirements: string[] = [];
-    let totalRequired = 0;
-    let totalOwned = 0;
-    
-    for (const requirement of opportunity.requirements) {
-      const matchingPerks = ownedPerks.filter(perk => 
-        perk.redemptionType === requirement.perkType && 
-        perk.status === 'ACTIVE'
-      );
-      
-      totalRequired += requirement.quantity;
-      totalOwned += Math.min(matchingPerks.length, requirement.quantity);
-      
-      if (matchingPerks.length < requirement.quantity) {
-        const missing = requirement.quantity - matchingPerks.length;
-        missingRequirements.push(`${missing}x ${requirement.perkName}`);
-      }
-    }
-    
-    return {
-      canRedeem: missingRequirements.length === 0,
-      missingRequirements,
-      completionPercent: Math.round((totalOwned / totalRequired) * 100)
-    };
-  }, [opportunity.requirements, ownedPerks]);
-
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Easy': return '#10B981'; // green
@@ -1091,7 +869,7 @@ const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
       className="p-4 rounded-xl border-2 transition-all duration-200 hover:shadow-lg h-full flex flex-col"
       style={{ 
         backgroundColor: 'var(--color-background-card)',
-        borderColor: requirementCheck.canRedeem ? '#10B981' : 'var(--color-border)',
+        borderColor: check.canRedeem ? '#10B981' : 'var(--color-border)',
         minHeight: '450px'
       }}
     >
@@ -1119,10 +897,10 @@ const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
         
         <div className="text-right">
           <div className="text-sm font-medium" style={{ color: 'var(--color-primary)' }}>
-            {opportunity.estimatedValue}
+            {opportunity.reward.estimatedValue}
           </div>
           <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-            {opportunity.timeToRedeem}
+            {opportunity.reward.timeToRedeem}
           </div>
         </div>
       </div>
@@ -1133,59 +911,15 @@ const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
           Requirements:
         </div>
         
-        {opportunity.requirements.map((req, index) => {
-          const matchingPerks = ownedPerks.filter(perk => 
-            perk.redemptionType === req.perkType && 
-            perk.status === 'ACTIVE'
-          );
-          const owned = matchingPerks.length;
-          const needed = req.quantity;
-          const isMet = owned >= needed;
-          
-          return (
-            <div 
-              key={index}
-              className="flex items-center justify-between p-3 rounded-lg border transition-all duration-200"
-              style={{ 
-                backgroundColor: isMet 
-                  ? 'rgba(16, 185, 129, 0.1)' 
-                  : 'rgba(239, 68, 68, 0.1)',
-                borderColor: isMet ? 'rgba(16, 185, 129, 0.3)' : 'rgba(239, 68, 68, 0.3)'
-              }}
-            >
-              <div className="flex-1">
-                <div className="flex items-center space-x-2 mb-1">
-                  <span className="text-sm">{isMet ? '✅' : '❌'}</span>
-                  <div className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
-                    {req.perkName}
-                  </div>
-                </div>
-                <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-                  {req.description}
-                </div>
-              </div>
-              
-              <div 
-                className="text-sm font-bold px-2 py-1 rounded-lg ml-3"
-                style={{ 
-                  backgroundColor: isMet 
-                    ? 'rgba(16, 185, 129, 0.2)' 
-                    : 'rgba(239, 68, 68, 0.2)',
-                  color: isMet ? '#059669' : '#DC2626'
-                }}
-              >
-                {owned}/{needed}
-              </div>
-            </div>
-          );
-        })}
+        {check.requirements.children.map((result, index) => (
+          <RequirementRow key={index} result={result} />
+        ))}
       </div>
-
       {/* Progress Bar */}
       <div className="mb-4">
         <div className="flex justify-between text-xs mb-1" style={{ color: 'var(--color-text-muted)' }}>
           <span>Progress</span>
-          <span>{requirementCheck.completionPercent}%</span>
+          <span>{check.completionPercent}%</span>
         </div>
         <div 
           className="w-full rounded-full h-2"
@@ -1194,8 +928,8 @@ const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
           <div 
             className="h-2 rounded-full transition-all duration-300"
             style={{ 
-              width: `${requirementCheck.completionPercent}%`,
-              backgroundColor: requirementCheck.canRedeem ? '#10B981' : '#F59E0B'
+              width: `${check.completionPercent}%`,
+              backgroundColor: check.canRedeem ? '#10B981' : '#F59E0B'
             }}
           />
         </div>
@@ -1210,25 +944,43 @@ const RedemptionOpportunityCard: React.FC<RedemptionOpportunityCardProps> = ({
         }}
       >
         <div className="text-sm font-medium mb-1" style={{ color: 'var(--color-text)' }}>
-          🎁 {opportunity.rewardType}
+          🎁 {opportunity.reward.label}
         </div>
         <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-          {opportunity.rewardDescription}
+          {opportunity.reward.description}
         </div>
+        {(opportunity.startsAt !== null || opportunity.endsAt !== null || opportunity.perUserLimit !== null) && (
+          <div className="text-xs mt-2 space-y-1" style={{ color: 'var(--color-text-muted)' }}>
+            {opportunity.startsAt !== null && check.availability === 'upcoming' && (
+              <div>🗓️ Opens {new Date(opportunity.startsAt).toLocaleString()}</div>
+            )}
+            {opportunity.endsAt !== null && (
+              <div>⏳ Ends {new Date(opportunity.endsAt).toLocaleString()}</div>
+            )}
+            {opportunity.perUserLimit !== null && (
+              <div>🔁 Limit {opportunity.perUserLimit} per wallet</div>
+            )}
+          </div>
+        )}
+        {preview && (
+          <div className="text-xs mt-2" style={{ color: '#F59E0B' }}>
+            🧪 Local preview - the limit is only counted in this browser and the code won't be honoured
+          </div>
+        )}
       </div>
 
       {/* Action Button - Always at bottom */}
       <div className="mt-auto">
         <Button
           onClick={onRedeem}
-          disabled={!requirementCheck.canRedeem}
-          variant={requirementCheck.canRedeem ? "default" : "outline"}
+          disabled={!check.canRedeem}
+          variant={check.canRedeem ? "default" : "outline"}
           size="sm"
           className="w-full"
         >
-          {requirementCheck.canRedeem 
+          {check.canRedeem 
             ? `🏆 Redeem ${opportunity.title}` 
-            : `Missing: ${requirementCheck.missingRequirements.join(', ')}`
+            : describeOpportunityBlock(check)
           }
         </Button>
       </div>
@@ -1288,7 +1040,7 @@ const RedemptionResultModal: React.FC<RedemptionResultModalProps> = ({ result, o
               </label>
               <div className="flex items-center gap-2 mt-1">
                 <div 
-                  className="flex-1 p-3 rounded-lg font-mono text-center text-lg font-bold"
+                  className={`flex-1 p-3 rounded-lg font-mono ${result.data.code.length > 24 ? 'text-xs break-all' : 'text-center text-lg font-bold'}`}
                   style={{ 
                     backgroundColor: 'var(--color-background)',
                     border: '2px solid var(--color-primary)'
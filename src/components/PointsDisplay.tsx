@@ -1,7 +1,8 @@
 import React from 'react';
 import { useAlphaPoints } from '../hooks/useAlphaPoints';
-import { formatPoints, alphaPointsToUSD } from '../utils/format';
+import { formatPoints } from '../utils/format';
 import { BRAND_CONFIG } from '../config/brand';
+import { UsdEstimate } from './UsdEstimate';
 
 export const PointsDisplay: React.FC = () => {
   const { points, loading, error } = useAlphaPoints();
@@ -50,12 +51,10 @@ export const PointsDisplay: React.FC = () => {
         </span>
         <span className="ml-1" style={{ color: 'var(--color-text-muted)' }}>αP</span>
         {BRAND_CONFIG.features.showPriceInUSD && (
-          <div className="text-xs" style={{ color: 'var(--color-success)' }}>
-            ≈ ${alphaPointsToUSD(points.available)}
-          </div>
+          <UsdEstimate points={points.available} className="text-xs" />
         )}
       </div>
-      {points.locked > 0 && (
+      {points.locked > 0n && (
         <div className="text-xs px-2 py-1 rounded" 
              style={{ 
                backgroundColor: 'var(--color-background)',
@@ -0,0 +1,36 @@
+import React from 'react';
+import { getExplorerTransactionUrl } from '../config/sui';
+
+export type TransactionToastStatus = 'signing' | 'confirming' | 'success' | 'error';
+
+export interface TransactionToastProps {
+  status: TransactionToastStatus; // Picks the toast type and its icon
+  message: string;
+  digest?: string;
+}
+
+/**
+ * Status of one transaction, with an explorer link once it has a digest
+ */
+export const TransactionToast: React.FC<TransactionToastProps> = ({ message, digest }) => {
+  const explorerUrl = digest ? getExplorerTransactionUrl(digest) : null;
+
+  return (
+    <div className="text-sm">
+      <div style={{ whiteSpace: 'pre-line' }}>
+        {message}
+      </div>
+      {digest && (
+        <div className="text-xs mt-1 opacity-80">
+          {explorerUrl ? (
+            <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline">
+              View transaction {digest.substring(0, 8)}...
+            </a>
+          ) : (
+            <>Transaction {digest.substring(0, 8)}...</>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { PointsAmount } from '../types/index';
+import { useUsdRate } from '../hooks/useUsdRate';
+import { formatTimeAgo } from '../utils/format';
+
+interface UsdEstimateProps {
+  points: PointsAmount;
+  suffix?: string;
+  className?: string;
+}
+
+/**
+ * "≈ $x" for an amount of points at the oracle rate, flagged when the
+ * oracle price is old or couldn't be read
+ */
+export const UsdEstimate: React.FC<UsdEstimateProps> = ({ points, suffix, className = '' }) => {
+  const { toUsd, updatedAt, isStale, isFallback } = useUsdRate();
+
+  const staleTitle = isFallback
+    ? 'Oracle price unavailable - using the default rate'
+    : updatedAt === null
+    ? 'Oracle price update time unknown'
+    : `Oracle price last updated ${formatTimeAgo(updatedAt).toLowerCase()}`;
+
+  return (
+    <div className={className} style={{ color: 'var(--color-success)' }}>
+      ≈ ${toUsd(points)}{suffix && ` ${suffix}`}
+      {isStale && (
+        <span className="ml-1 cursor-help" style={{ color: 'var(--color-warning)' }} title={staleTitle}>
+          ⚠️
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { SUI_CONFIG, getExplorerTransactionUrl } from '../config/sui';
+import { getVoucherPublicKey } from '../services/fulfillmentProviders';
+import { verifyVoucher } from '../services/voucherVerification';
+import type { VoucherVerification } from '../services/voucherVerification';
+
+const STATUS_STYLES: Record<VoucherVerification['status'], { icon: string; color: string }> = {
+  valid: { icon: '✅', color: 'var(--color-success)' },
+  malformed: { icon: '❓', color: 'var(--color-error)' },
+  bad_signature: { icon: '⛔', color: 'var(--color-error)' },
+  expired: { icon: '⏰', color: 'var(--color-warning)' },
+  not_consumed: { icon: '⛔', color: 'var(--color-error)' },
+  unsupported: { icon: '⚠️', color: 'var(--color-warning)' },
+  chain_error: { icon: '⚠️', color: 'var(--color-warning)' },
+};
+
+/**
+ * Merchant page for checking voucher codes. Needs no wallet - the code's
+ * signature is checked locally and the redemption against the chain.
+ */
+export const VoucherVerifier: React.FC = () => {
+  const client = useSuiClient();
+  const [code, setCode] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<VoucherVerification | null>(null);
+
+  useEffect(() => {
+    getVoucherPublicKey(SUI_CONFIG.demoMode || import.meta.env.DEV)
+      .then(key => setPublicKey(current => current || key || ''))
+      .catch(() => {
+        // Left for the merchant to paste
+      });
+  }, []);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setResult(null);
+    try {
+      setResult(await verifyVoucher(client, code, publicKey.trim()));
+    } catch {
+      setResult({ status: 'malformed', message: 'The issuer public key is not valid.' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: 'var(--color-background)',
+    borderColor: 'var(--color-border)',
+    color: 'var(--color-text)',
+  };
+  const explorerUrl = result?.payload ? getExplorerTransactionUrl(result.payload.digest) : null;
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold" style={{ color: 'var(--color-text)' }}>🔍 Verify a Voucher</h2>
+        <p className="text-sm mt-2" style={{ color: 'var(--color-text-muted)' }}>
+          Checks the code's signature and that the perk was redeemed on-chain. Record accepted codes - a code stays valid until it expires.
+        </p>
+      </div>
+
+      <div
+        className="p-6 rounded-2xl border space-y-4"
+        style={{ backgroundColor: 'var(--color-background-card)', borderColor: 'var(--color-border)' }}
+      >
+        <label className="block text-sm" style={{ color: 'var(--color-text-muted)' }}>
+          Voucher code
+          <textarea
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            rows={3}
+            className="mt-1 w-full px-3 py-2 rounded-lg border font-mono text-xs break-all"
+            style={inputStyle}
+          />
+        </label>
+        <label className="block text-sm" style={{ color: 'var(--color-text-muted)' }}>
+          Issuer public key
+          <input
+            value={publicKey}
+            onChange={(e) => setPublicKey(e.target.value)}
+            className="mt-1 w-full px-3 py-2 rounded-lg border font-mono text-xs"
+            style={inputStyle}
+          />
+        </label>
+        <button
+          onClick={handleVerify}
+          disabled={isVerifying || !code.trim() || !publicKey.trim()}
+          className="w-full px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: 'var(--color-primary)', color: 'var(--color-text)' }}
+        >
+          {isVerifying ? '⏳ Verifying...' : 'Verify'}
+        </button>
+      </div>
+
+      {result && (
+        <div
+          className="p-6 rounded-2xl border space-y-2"
+          style={{ backgroundColor: 'var(--color-background-card)', borderColor: STATUS_STYLES[result.status].color }}
+        >
+          <div className="font-semibold" style={{ color: STATUS_STYLES[result.status].color }}>
+            {STATUS_STYLES[result.status].icon} {result.message}
+          </div>
+          {result.payload && (
+            <div className="text-xs space-y-1 break-all" style={{ color: 'var(--color-text-muted)' }}>
+              <div>Perk: {result.payload.claimedPerkId}</div>
+              <div>
+                Transaction:{' '}
+                {explorerUrl ? (
+                  <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="underline" style={{ color: 'var(--color-primary)' }}>
+                    {result.payload.digest}
+                  </a>
+                ) : result.payload.digest}
+              </div>
+              <div>Expires: {new Date(result.payload.expiresAt).toLocaleString()}</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
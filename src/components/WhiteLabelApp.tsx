@@ -4,20 +4,39 @@ import { toast, Toaster } from 'react-hot-toast';
 import { CuratedPerkMarketplace } from './CuratedPerkMarketplace';
 import { PerkRedemptionCenter } from './PerkRedemptionCenter';
 import { GenerationCenter } from './GenerationCenter';
+import { ClaimHistory } from './ClaimHistory';
+import { VoucherVerifier } from './VoucherVerifier';
 import { PerkDebugHelper } from './PerkDebugHelper';
 import { PointsDisplay } from './PointsDisplay';
+import { NetworkSelector } from './NetworkSelector';
 import { BRAND_CONFIG, generateCSSVars } from '../config/brand';
+import { SUI_CONFIG, getNetworkDisplayName } from '../config/sui';
+import { useActiveNetwork } from '../hooks/useNetwork';
+import { useDiscordAuth } from '../hooks/useDiscordAuth';
 
-type TabType = 'marketplace' | 'redemption' | 'generation';
+type TabType = 'marketplace' | 'redemption' | 'generation' | 'history';
+
+// Merchants open the voucher checker at #verify, without a wallet
+const VERIFY_HASH = '#verify';
 
 
 
 export const WhiteLabelApp: React.FC = () => {
   const currentAccount = useCurrentAccount();
+  const [network] = useActiveNetwork();
+  // Completes a Discord connection started from the claim wizard
+  const { error: discordError } = useDiscordAuth();
   const { mutate: connectWallet } = useConnectWallet();
   const { mutate: disconnectWallet } = useDisconnectWallet();
   const wallets = useWallets();
   const [activeTab, setActiveTab] = useState<TabType>('marketplace');
+  const [isVerifyPage, setIsVerifyPage] = useState(() => window.location.hash === VERIFY_HASH);
+
+  useEffect(() => {
+    const onHashChange = () => setIsVerifyPage(window.location.hash === VERIFY_HASH);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
 
   // Apply brand CSS variables
   useEffect(() => {
@@ -35,6 +54,12 @@ export const WhiteLabelApp: React.FC = () => {
     };
   }, []);
 
+  useEffect(() => {
+    if (discordError) {
+      toast.error(`Discord connection failed: ${discordError}`);
+    }
+  }, [discordError]);
+
   const handleConnectWallet = () => {
     // Find the first available wallet or default to Sui Wallet
     const availableWallet = wallets.find(wallet => 
@@ -107,7 +132,10 @@ export const WhiteLabelApp: React.FC = () => {
               {/* Network Status */}
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 rounded-full animate-pulse" style={{ backgroundColor: 'var(--color-success)' }}></div>
-                <span className="text-sm" style={{ color: 'var(--color-text-muted)' }}>Live on Sui Testnet</span>
+                <span className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                  {SUI_CONFIG.demoMode ? 'Demo Mode - simulated chain' : `Live on Sui ${getNetworkDisplayName(network)}`}
+                </span>
+                <NetworkSelector />
                             </div>
               
               {/* Alpha Points Display (when connected) */}
@@ -156,7 +184,14 @@ export const WhiteLabelApp: React.FC = () => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {!currentAccount ? (
+        {isVerifyPage ? (
+          <div className="space-y-6">
+            <a href="#" className="text-sm hover:underline" style={{ color: 'var(--color-primary)' }}>
+              ← Back to {BRAND_CONFIG.company.name}
+            </a>
+            <VoucherVerifier />
+          </div>
+        ) : !currentAccount ? (
           /* Welcome State - Not Connected */
           <div className="text-center py-16">
             <div className="max-w-2xl mx-auto">
@@ -307,6 +342,20 @@ export const WhiteLabelApp: React.FC = () => {
                 >
                   🎁 Redemption
                 </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                    activeTab === 'history' 
+                      ? 'shadow-md transform scale-105' 
+                      : 'hover:opacity-80'
+                  }`}
+                  style={{
+                    backgroundColor: activeTab === 'history' ? 'var(--color-primary)' : 'transparent',
+                    color: activeTab === 'history' ? 'var(--color-text)' : 'var(--color-text-muted)'
+                  }}
+                >
+                  📜 History
+                </button>
               </div>
             </div>
 
@@ -316,6 +365,8 @@ export const WhiteLabelApp: React.FC = () => {
                 <CuratedPerkMarketplace />
               ) : activeTab === 'generation' ? (
                 <GenerationCenter />
+              ) : activeTab === 'history' ? (
+                <ClaimHistory />
               ) : (
                 <PerkRedemptionCenter />
               )}
@@ -354,6 +405,14 @@ export const WhiteLabelApp: React.FC = () => {
                 </a>
               )}
               
+              <a
+                href={VERIFY_HASH}
+                className="text-sm hover:underline"
+                style={{ color: 'var(--color-primary)' }}
+              >
+                Verify a Voucher
+              </a>
+
               {BRAND_CONFIG.company.supportEmail && (
                 <a 
                   href={`mailto:${BRAND_CONFIG.company.supportEmail}`}
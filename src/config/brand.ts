@@ -1,5 +1,8 @@
 // Brand Configuration for White Label Perk Marketplace
 // 🎨 Customize this file to match your company's branding
+import type { SuiNetwork } from './sui';
+import type { TransactionErrorKind } from '../utils/moveErrors';
+import type { ClaimMetadataField } from '../types/index';
 
 export interface BrandConfig {
   // Company Information
@@ -46,6 +49,9 @@ export interface BrandConfig {
     requiredTags: string[];
     // Custom sorting
     defaultSort: 'alphabetical' | 'date' | 'price-low' | 'price-high' | 'claims';
+    // Data to collect when claiming, keyed by perk ID or tag (perk ID wins).
+    // Perks that need metadata but aren't listed get a default field.
+    claimMetadataFields?: Record<string, ClaimMetadataField[]>;
   };
   
   // Feature Toggles
@@ -66,6 +72,25 @@ export interface BrandConfig {
     footerText?: string;
     connectWalletText: string;
     noPerksMessage: string;
+    // Override the messages shown when a transaction fails
+    transactionErrors?: Partial<Record<TransactionErrorKind, string>>;
+  };
+  
+  // Smart Contract Packages (optional)
+  packages?: {
+    // Extra perk_manager package versions to read perks from, per network.
+    // Merged with VITE_PERK_MANAGER_PACKAGE_VERSIONS.
+    perkManagerVersions?: Partial<Record<SuiNetwork, string[]>>;
+  };
+
+  // Network Selection (optional - defaults to VITE_SUI_NETWORK, locked)
+  network?: {
+    // Let users switch between configured networks from the header
+    allowSwitching: boolean;
+    // Network to start on (overrides VITE_SUI_NETWORK)
+    defaultNetwork?: SuiNetwork;
+    // Networks offered when switching is allowed (default: every configured one)
+    availableNetworks?: SuiNetwork[];
   };
 }
 
@@ -122,6 +147,12 @@ export const BRAND_CONFIG: BrandConfig = {
     requiredTags: [], // Only show perks with these tags
     
     defaultSort: "date", // How to sort perks by default
+
+    // Option 4: Collect data at claim time (Discord ID, email, ...)
+    claimMetadataFields: {
+      // "discord": [{ key: "discord_id", label: "Discord User ID", type: "discord", privacy: "hash" }], // needs VITE_METADATA_SALT
+      // "0xperk...": [{ key: "email", label: "Email for delivery", type: "email" }],
+    },
   },
   
   features: {
@@ -141,6 +172,10 @@ export const BRAND_CONFIG: BrandConfig = {
     connectWalletText: "Connect Wallet to View Perks",
     noPerksMessage: "No perks available at this time. Check back soon!",
   },
+
+  network: {
+    allowSwitching: false,         // Lock the store to one network
+  },
 };
 
 // CSS Custom Properties Generator
@@ -0,0 +1,122 @@
+// Demo Mode Configuration
+// With VITE_DEMO_MODE=true the app talks to an in-memory perk_manager chain
+// (see services/demoChain) instead of a Sui fullnode, and connects a local
+// burner wallet. Used for sales demos, screenshots and automated tests.
+
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+
+// Deterministic 32-byte IDs so cached demo data stays valid across reloads
+const demoId = (n: number): string => `0x${'de30'.repeat(15)}${n.toString(16).padStart(4, '0')}`;
+
+export const DEMO_IDS = {
+  package: demoId(0x0001),
+  config: demoId(0x0002),
+  ledger: demoId(0x0003),
+  stakingManager: demoId(0x0004),
+  oracle: demoId(0x0005),
+} as const;
+
+// Alpha Points every demo account starts with
+export const DEMO_STARTING_POINTS = 250_000n;
+
+export interface DemoPartnerFixture {
+  id: string;
+  name: string;
+}
+
+export interface DemoPerkFixture {
+  id: string;
+  partnerId: string;
+  name: string;
+  description: string;
+  perkType: string;
+  tags: string[];
+  usdcPrice: number;
+  alphaPointsPrice: number;
+  totalClaims: number;
+  maxClaims?: number;
+  maxUsesPerClaim?: number;
+  expiresInDays?: number; // Negative for an already expired perk
+  isActive?: boolean;
+  generatesUniqueClaimMetadata?: boolean;
+}
+
+export const DEMO_PARTNERS: DemoPartnerFixture[] = [
+  { id: demoId(0x0101), name: 'Northwind Studios' },
+  { id: demoId(0x0102), name: 'Lumen Coffee Co.' },
+  { id: demoId(0x0103), name: 'Orbit Gaming Guild' },
+];
+
+export const DEMO_PERKS: DemoPerkFixture[] = [
+  {
+    id: demoId(0x0201),
+    partnerId: demoId(0x0101),
+    name: 'Early Access Pass',
+    description: 'Get into every Northwind beta a week before public launch.',
+    perkType: 'Access',
+    tags: ['access', 'membership'],
+    usdcPrice: 25,
+    alphaPointsPrice: 25_000,
+    totalClaims: 142,
+  },
+  {
+    id: demoId(0x0202),
+    partnerId: demoId(0x0102),
+    name: 'Free Coffee Voucher',
+    description: 'Redeem a voucher code for any drink at a Lumen Coffee location.',
+    perkType: 'Discount',
+    tags: ['voucher', 'food'],
+    usdcPrice: 5,
+    alphaPointsPrice: 5_000,
+    totalClaims: 318,
+    maxUsesPerClaim: 1,
+  },
+  {
+    id: demoId(0x0203),
+    partnerId: demoId(0x0103),
+    name: 'Guild Discord Role',
+    description: 'Unlock the Alpha role and private channels in the Orbit Discord.',
+    perkType: 'Access',
+    tags: ['discord', 'access'],
+    usdcPrice: 10,
+    alphaPointsPrice: 10_000,
+    totalClaims: 57,
+    generatesUniqueClaimMetadata: true,
+  },
+  {
+    id: demoId(0x0204),
+    partnerId: demoId(0x0101),
+    name: 'Limited Edition Art Print',
+    description: 'Signed print from the Northwind art team, shipped to your door.',
+    perkType: 'Premium',
+    tags: ['physical', 'limited'],
+    usdcPrice: 80,
+    alphaPointsPrice: 80_000,
+    totalClaims: 47,
+    maxClaims: 50,
+  },
+  {
+    id: demoId(0x0205),
+    partnerId: demoId(0x0103),
+    name: '1:1 Coaching Session',
+    description: 'Book a 30 minute session with a pro player from the guild.',
+    perkType: 'Service',
+    tags: ['booking', 'service'],
+    usdcPrice: 40,
+    alphaPointsPrice: 40_000,
+    totalClaims: 12,
+    expiresInDays: 14,
+  },
+  {
+    id: demoId(0x0206),
+    partnerId: demoId(0x0102),
+    name: 'Summer Menu Tasting',
+    description: 'Seasonal tasting event - this one has already wrapped up.',
+    perkType: 'Bonus',
+    tags: ['event', 'food'],
+    usdcPrice: 15,
+    alphaPointsPrice: 15_000,
+    totalClaims: 90,
+    expiresInDays: -3,
+  },
+];
@@ -0,0 +1,36 @@
+// Fulfillment Configuration
+// 🔌 Decide who fulfils each redeemed perk. A perk is consumed on-chain
+// first, then handed to the most specific provider registered for it:
+// perk ID, then partner, then redemption type, then the default.
+import { DEMO_MODE } from './demo';
+import {
+  createWebhookFulfillmentProvider,
+  localFulfillmentProvider,
+} from '../services/fulfillmentProviders';
+import type { FulfillmentProvider } from '../services/fulfillmentProviders';
+import type { RedemptionType } from '../types/index';
+
+export interface FulfillmentRegistration {
+  provider: FulfillmentProvider;
+  // Set exactly one of these
+  perkDefinitionId?: string;
+  partnerCapId?: string;
+  redemptionType?: RedemptionType;
+}
+
+const FULFILLMENT_WEBHOOK_URL: string | undefined = import.meta.env.VITE_FULFILLMENT_WEBHOOK_URL;
+
+// 🏢 REGISTER YOUR PROVIDERS HERE
+export const FULFILLMENT_PROVIDERS: FulfillmentRegistration[] = [
+  // { redemptionType: 'voucher_code', provider: createWebhookFulfillmentProvider({ url: 'https://api.example.com/vouchers' }) },
+  // { partnerCapId: '0xpartner...', provider: createWebhookFulfillmentProvider({ url: 'https://partner.example.com/redeem' }) },
+  // { perkDefinitionId: '0xperk...', provider: myCustomProvider },
+];
+
+// Used when nothing above matches. Without a webhook, production builds
+// have no default so perks aren't consumed for placeholder codes.
+export const DEFAULT_FULFILLMENT_PROVIDER: FulfillmentProvider | null = FULFILLMENT_WEBHOOK_URL
+  ? createWebhookFulfillmentProvider({ url: FULFILLMENT_WEBHOOK_URL })
+  : DEMO_MODE || import.meta.env.DEV
+    ? localFulfillmentProvider
+    : null;
@@ -0,0 +1,237 @@
+// Redemption Opportunities Configuration
+// 🏆 Rewards users unlock by combining the perks they own. Lives alongside
+// BRAND_CONFIG - edit this file instead of the redemption center.
+import type { RedemptionOpportunityConfig } from '../types/index';
+
+// ===============================================
+// TEMPLATE REDEMPTION OPPORTUNITIES
+// ===============================================
+// These are examples for deployers to customize for their own redemption portals.
+// Each template shows different object consumption patterns:
+//
+// 1. Single Object → Service Exchange
+// 2. Multiple Same Objects → Upgraded Service  
+// 3. Mixed Object Types → Complex Reward
+// 4. Voucher Bundle → Physical Product
+// 5. High Volume → Exclusive Access
+// 6. Cross-Category → Hybrid Reward
+//
+// DEPLOYER INSTRUCTIONS:
+// - Replace these templates with your own redemption opportunities
+// - Update perkType to match your curated marketplace objects
+// - Customize titles, descriptions, rewards, and requirements
+// - Set realistic reward.estimatedValue and reward.timeToRedeem
+// - Test requirement checking logic with your object types
+//
+// SCHEDULING AND LIMITS:
+// - schedule: { startsAt: '2025-06-01T00:00:00Z', endsAt: '2025-06-30T23:59:59Z' }
+//   Upcoming opportunities show as locked; ended ones are hidden
+// - perUserLimit: How many times one wallet can redeem it, enforced by the
+//   fulfillment provider (see config/fulfillment). The local stand-in only
+//   counts per browser, so its cards are marked as a preview.
+//
+// OBJECT CONSUMPTION PATTERNS:
+// - perkType: 'membership_access', 'voucher_code', 'digital_delivery', 'service_booking', 'physical_claim'
+// - quantity: How many objects of this type are required
+// - Requirements are AND logic (all must be met)
+//
+// RICHER REQUIREMENTS (see utils/opportunityRequirements):
+// - Narrow which perks count - every field set must match:
+//   { perkName: 'Launch Pass', quantity: 1, description: '...',
+//     perkDefinitionId: '0x...', partnerCapId: '0x...', tags: ['launch'],
+//     minRemainingUses: 2, minClaimAgeDays: 30 }
+// - Points balance: { minPoints: 5000, description: 'Hold 5,000 Alpha Points' }
+// - Groups: { anyOf: [...] }, { allOf: [...] } and
+//   { not: {...}, description: 'No VIP pass yet' }, nested as deep as needed
+//
+// Entries are validated when the app loads (utils/redemptionOpportunities);
+// invalid ones are skipped with a console warning.
+// ===============================================
+
+export const REDEMPTION_OPPORTUNITIES: RedemptionOpportunityConfig[] = [
+  // TEMPLATE 1: Single Object → Service Exchange
+  {
+    id: 'single-object-service',
+    title: '1-on-1 Strategy Session',
+    description: 'Exchange your consultation perk for a personalized strategy session',
+    difficulty: 'Easy',
+    icon: '💼',
+    requirements: [
+      {
+        perkName: 'Strategy Consultation Pass',
+        perkType: 'service_booking',
+        quantity: 1,
+        description: 'Exchange 1 Strategy Consultation Pass'
+      }
+    ],
+    reward: {
+      label: 'Professional Service',
+      description: '60-minute 1-on-1 strategy session with founder + follow-up summary',
+      redemptionType: 'service_booking',
+      estimatedValue: '$300',
+      timeToRedeem: 'Instant booking'
+    }
+  },
+
+  // TEMPLATE 2: Multiple Same Objects → Upgraded Service
+  {
+    id: 'multiple-same-upgrade',
+    title: 'VIP Discord Access',
+    description: 'Combine multiple membership perks for premium community access',
+    difficulty: 'Medium',
+    icon: '🌟',
+    requirements: [
+      {
+        perkName: 'Community Membership',
+        perkType: 'membership_access',
+        quantity: 3,
+        description: 'Combine 3 Community Membership perks'
+      }
+    ],
+    reward: {
+      label: 'Enhanced Access',
+      description: 'VIP Discord channels + Weekly AMA access + Priority DMs',
+      redemptionType: 'membership_access',
+      estimatedValue: '$150',
+      timeToRedeem: '1-2 minutes'
+    },
+    perUserLimit: 1
+  },
+
+  // TEMPLATE 3: Mixed Object Types → Complex Reward
+  {
+    id: 'mixed-objects-complex',
+    title: 'Complete Business Package',
+    description: 'Ultimate business growth package requiring diverse perk portfolio',
+    difficulty: 'Hard',
+    icon: '🚀',
+    requirements: [
+      {
+        perkName: 'Business Consultation',
+        perkType: 'service_booking',
+        quantity: 1,
+        description: 'Business consultation service'
+      },
+      {
+        perkName: 'Premium Tools Access',
+        perkType: 'digital_delivery',
+        quantity: 2,
+        description: '2 different premium tool licenses'
+      },
+      {
+        perkName: 'VIP Membership',
+        perkType: 'membership_access',
+        quantity: 1,
+        minClaimAgeDays: 30,
+        description: 'Active VIP membership held for at least 30 days'
+      }
+    ],
+    reward: {
+      label: 'Business Package',
+      description: 'Brand audit + Website review + 3-month mentorship + Exclusive tools access',
+      redemptionType: 'service_booking',
+      estimatedValue: '$2,500',
+      timeToRedeem: '24-48 hours'
+    }
+  },
+
+  // TEMPLATE 4: Voucher Bundle → Physical Product
+  {
+    id: 'voucher-to-physical',
+    title: 'Exclusive Merchandise Bundle',
+    description: 'Convert your discount vouchers into premium branded merchandise',
+    difficulty: 'Medium',
+    icon: '📦',
+    requirements: [
+      {
+        perkName: 'Discount Vouchers',
+        perkType: 'voucher_code',
+        quantity: 5,
+        description: 'Redeem 5 discount voucher codes'
+      }
+    ],
+    reward: {
+      label: 'Physical Bundle',
+      description: 'Premium hoodie + Signed book + Exclusive stickers + Limited edition mug',
+      redemptionType: 'physical_claim',
+      estimatedValue: '$200',
+      timeToRedeem: '3-5 business days'
+    }
+  },
+
+  // TEMPLATE 5: High Volume → Exclusive Access
+  {
+    id: 'high-volume-exclusive',
+    title: 'Founder\'s Inner Circle',
+    description: 'Elite tier requiring significant perk investment for ultimate access',
+    difficulty: 'Hard',
+    icon: '👑',
+    requirements: [
+      {
+        perkName: 'Any Membership Perks',
+        perkType: 'membership_access',
+        quantity: 10,
+        description: 'Accumulate 10 membership perks of any type'
+      },
+      {
+        perkName: 'Service Experiences',
+        perkType: 'service_booking',
+        quantity: 3,
+        description: 'Complete 3 different service bookings'
+      }
+    ],
+    reward: {
+      label: 'Elite Membership',
+      description: 'Monthly founder dinners + Private Slack + Equity opportunities + Personal intro network',
+      redemptionType: 'membership_access',
+      estimatedValue: '$10,000+',
+      timeToRedeem: 'Manual review (2-7 days)'
+    },
+    perUserLimit: 1
+  },
+
+  // TEMPLATE 6: Cross-Category → Hybrid Reward
+  {
+    id: 'cross-category-hybrid',
+    title: 'Creator Economy Accelerator',
+    description: 'Perfect for content creators - combines tools, mentorship, and promotion',
+    difficulty: 'Hard',
+    icon: '🎬',
+    requirements: [
+      {
+        perkName: 'Digital Tools',
+        perkType: 'digital_delivery',
+        quantity: 3,
+        description: '3 different digital tool/software licenses'
+      },
+      {
+        perkName: 'Strategy Session',
+        perkType: 'service_booking',
+        quantity: 1,
+        description: '1 strategy/consultation booking'
+      },
+      {
+        anyOf: [
+          {
+            perkName: 'Promotional Credits',
+            perkType: 'voucher_code',
+            quantity: 2,
+            description: '2 promotional/advertising credit vouchers'
+          },
+          {
+            minPoints: 5000,
+            description: 'Or hold 5,000 Alpha Points instead'
+          }
+        ],
+        description: 'Promotion budget'
+      }
+    ],
+    reward: {
+      label: 'Creator Package',
+      description: 'Video editing tools + Content strategy session + Social media promotion + Revenue optimization',
+      redemptionType: 'digital_delivery',
+      estimatedValue: '$1,200',
+      timeToRedeem: '1-2 weeks setup'
+    }
+  }
+];
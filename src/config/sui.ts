@@ -1,4 +1,15 @@
 // Sui Network Configuration
+import { getFullnodeUrl } from '@mysten/sui/client';
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+import { BRAND_CONFIG } from './brand';
+import { DEMO_MODE, DEMO_IDS } from './demo';
+
+export type SuiNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet';
+
+export const SUI_NETWORKS: SuiNetwork[] = ['mainnet', 'testnet', 'devnet', 'localnet'];
+
+const isSuiNetwork = (value: unknown): value is SuiNetwork =>
+  typeof value === 'string' && (SUI_NETWORKS as string[]).includes(value);
 
 // Helper function to validate Sui Object IDs
 const isValidSuiObjectId = (id: string | undefined): boolean => {
@@ -6,37 +17,252 @@ const isValidSuiObjectId = (id: string | undefined): boolean => {
 };
 
 // Helper function to handle invalid IDs
-const handleInvalidId = (name: string, id: string | undefined): string => {
-  throw new Error(`Missing or invalid ${name} in environment variables. Please check your .env file.`);
+const handleInvalidId = (name: string, network: SuiNetwork): never => {
+  throw new Error(`Missing or invalid ${name} for ${network} in environment variables. Please check your .env file.`);
+};
+
+// Network the env is written for - unsuffixed env vars apply to it
+const ENV_NETWORK: SuiNetwork = isSuiNetwork(import.meta.env.VITE_SUI_NETWORK)
+  ? import.meta.env.VITE_SUI_NETWORK
+  : 'testnet';
+
+// Per-network env vars (VITE_LEDGER_ID_MAINNET, ...) win; the unsuffixed
+// vars apply to the network the env is configured for
+const readNetworkEnv = (name: string, network: SuiNetwork): string | undefined => {
+  const env = import.meta.env as Record<string, string | undefined>;
+  return env[`${name}_${network.toUpperCase()}`] || (network === ENV_NETWORK ? env[name] : undefined);
+};
+
+// Package registry for perk_manager
+// Every upgrade of perk_manager gets a new package ID, but objects and events
+// created under older versions keep their original type. Reads (events, owned
+// objects) therefore span every version, while new transactions always target
+// a single package - normally the latest upgrade.
+export interface PerkManagerPackageRegistry {
+  versions: string[]; // Every known package version, used for reads
+  transactionTarget: string; // Package used for moveCall targets
+}
+
+// Comma-separated list of package IDs, ignoring anything that isn't a valid ID
+const parsePackageIdList = (value: string | undefined): string[] => {
+  if (!value) return [];
+  return value.split(',').map(id => id.trim()).filter(isValidSuiObjectId);
+};
+
+const buildPackageRegistry = (network: SuiNetwork): PerkManagerPackageRegistry => {
+  // The in-memory demo chain has a single perk_manager package on every network
+  if (DEMO_MODE) {
+    return { versions: [DEMO_IDS.package], transactionTarget: DEMO_IDS.package };
+  }
+
+  const versions = [
+    ...parsePackageIdList(readNetworkEnv('VITE_PERK_MANAGER_PACKAGE_VERSIONS', network)),
+    ...(BRAND_CONFIG.packages?.perkManagerVersions?.[network] || []).filter(isValidSuiObjectId),
+  ];
+  const transactionTarget = readNetworkEnv('VITE_PERK_MANAGER_PACKAGE_ID', network) || versions[versions.length - 1] || '';
+
+  return {
+    versions: [...new Set([transactionTarget, ...versions])].filter(Boolean),
+    transactionTarget,
+  };
+};
+
+export const PACKAGE_REGISTRY: Record<SuiNetwork, PerkManagerPackageRegistry> = {
+  mainnet: buildPackageRegistry('mainnet'),
+  testnet: buildPackageRegistry('testnet'),
+  devnet: buildPackageRegistry('devnet'),
+  localnet: buildPackageRegistry('localnet'),
+};
+
+// Shared objects required for Alpha Points balance queries and claims
+export interface SharedObjectIds {
+  config: string;
+  ledger: string;
+  stakingManager: string;
+  oracle: string;
+}
+
+const SHARED_OBJECT_ENV: Record<keyof SharedObjectIds, string> = {
+  config: 'VITE_CONFIG_ID',
+  ledger: 'VITE_LEDGER_ID',
+  stakingManager: 'VITE_STAKING_MANAGER_ID',
+  oracle: 'VITE_ORACLE_ID',
+};
+
+// null when any ID is missing or invalid - the network can't be used then
+const buildSharedObjects = (network: SuiNetwork): SharedObjectIds | null => {
+  if (DEMO_MODE) {
+    return {
+      config: DEMO_IDS.config,
+      ledger: DEMO_IDS.ledger,
+      stakingManager: DEMO_IDS.stakingManager,
+      oracle: DEMO_IDS.oracle,
+    };
+  }
+
+  const ids = {} as SharedObjectIds;
+  for (const [key, envName] of Object.entries(SHARED_OBJECT_ENV) as [keyof SharedObjectIds, string][]) {
+    const id = readNetworkEnv(envName, network);
+    if (!id || !isValidSuiObjectId(id)) return null;
+    ids[key] = id;
+  }
+  return ids;
+};
+
+// Primary RPC URL first, then any fallbacks from VITE_SUI_RPC_URLS (comma-separated)
+const buildRpcUrls = (network: SuiNetwork): string[] => {
+  const primary = readNetworkEnv('VITE_SUI_RPC_URL', network) || getFullnodeUrl(network);
+  const fallbacks = (readNetworkEnv('VITE_SUI_RPC_URLS', network) || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  return [...new Set([primary, ...fallbacks])];
+};
+
+// Everything that differs between networks
+export interface NetworkProfile {
+  network: SuiNetwork;
+  displayName: string;
+  rpcUrls: string[]; // Tried in order, see services/rpcTransport
+  packageRegistry: PerkManagerPackageRegistry;
+  sharedObjects: SharedObjectIds | null;
+}
+
+const NETWORK_DISPLAY_NAMES: Record<SuiNetwork, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  devnet: 'Devnet',
+  localnet: 'Localnet',
+};
+
+export const NETWORK_PROFILES: Record<SuiNetwork, NetworkProfile> = Object.fromEntries(
+  SUI_NETWORKS.map(network => [network, {
+    network,
+    displayName: NETWORK_DISPLAY_NAMES[network],
+    rpcUrls: buildRpcUrls(network),
+    packageRegistry: PACKAGE_REGISTRY[network],
+    sharedObjects: buildSharedObjects(network),
+  }])
+) as Record<SuiNetwork, NetworkProfile>;
+
+// A network is usable once its package and shared objects are configured
+export const isNetworkConfigured = (network: SuiNetwork): boolean => {
+  const profile = NETWORK_PROFILES[network];
+  return !!profile.sharedObjects && !!profile.packageRegistry.transactionTarget;
+};
+
+const DEFAULT_NETWORK: SuiNetwork = BRAND_CONFIG.network?.defaultNetwork ?? ENV_NETWORK;
+
+// Networks offered in the selector. Always includes the default network so
+// a misconfigured default still fails loudly instead of being skipped.
+export const getAvailableNetworks = (): SuiNetwork[] => {
+  if (DEMO_MODE || !BRAND_CONFIG.network?.allowSwitching) {
+    return [DEFAULT_NETWORK];
+  }
+  const allowed = BRAND_CONFIG.network.availableNetworks ?? SUI_NETWORKS;
+  return SUI_NETWORKS.filter(network =>
+    network === DEFAULT_NETWORK || (allowed.includes(network) && isNetworkConfigured(network))
+  );
 };
 
+// Active network - the user's last choice when switching is allowed
+const NETWORK_STORAGE_KEY = 'perk-store-network';
+
+const readStoredNetwork = (): SuiNetwork | null => {
+  try {
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    return isSuiNetwork(stored) && getAvailableNetworks().includes(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let activeNetwork: SuiNetwork = readStoredNetwork() ?? DEFAULT_NETWORK;
+const networkListeners = new Set<(network: SuiNetwork) => void>();
+
+export const getActiveNetwork = (): SuiNetwork => activeNetwork;
+
+/**
+ * Switch the active network. Ignored for networks the brand doesn't offer.
+ */
+export const setActiveNetwork = (network: SuiNetwork) => {
+  if (network === activeNetwork || !getAvailableNetworks().includes(network)) return;
+
+  activeNetwork = network;
+  try {
+    localStorage.setItem(NETWORK_STORAGE_KEY, network);
+  } catch {
+    // localStorage unavailable - the choice lasts for this session only
+  }
+  networkListeners.forEach(listener => listener(network));
+};
+
+/**
+ * Listen for network switches. Returns an unsubscribe function.
+ */
+export const onActiveNetworkChange = (listener: (network: SuiNetwork) => void): (() => void) => {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+};
+
+const getActiveProfile = (): NetworkProfile => NETWORK_PROFILES[activeNetwork];
+
+// Values that depend on the network are getters, so they always reflect the
+// active network
 export const SUI_CONFIG = {
-  network: (import.meta.env.VITE_SUI_NETWORK as 'mainnet' | 'testnet' | 'devnet') || 'testnet',
-  rpcUrl: import.meta.env.VITE_SUI_RPC_URL || 'https://fullnode.testnet.sui.io',
-  
+  get network(): SuiNetwork {
+    return activeNetwork;
+  },
+  demoMode: DEMO_MODE,
+  get rpcUrl(): string {
+    return getActiveProfile().rpcUrls[0]!;
+  },
+  get rpcUrls(): string[] {
+    return getActiveProfile().rpcUrls;
+  },
+
+  // Retry and failover policy for RPC requests
+  rpcPolicy: {
+    maxRetries: 4, // Attempts after the first one, across all endpoints
+    baseDelayMs: 250, // Backoff doubles from here, with full jitter
+    maxDelayMs: 5000,
+    requestTimeoutMs: 15000,
+    failuresBeforeFailover: 2, // Consecutive failures that mark an endpoint unhealthy
+    unhealthyCooldownMs: 30000, // How long an unhealthy endpoint is skipped
+    maxConcurrentRequests: 6,
+  },
+
   // Smart Contract Package IDs (update these when contracts are deployed)
-  packageIds: {
-    main: import.meta.env.VITE_PACKAGE_ID || import.meta.env.VITE_PERK_MANAGER_PACKAGE_ID,
-    perkManager: import.meta.env.VITE_PERK_MANAGER_PACKAGE_ID,
+  get packageIds() {
+    const target = getActiveProfile().packageRegistry.transactionTarget;
+    return {
+      main: (activeNetwork === ENV_NETWORK && import.meta.env.VITE_PACKAGE_ID) || target,
+      perkManager: target,
+    };
+  },
+
+  // All perk_manager versions for the active network (see PACKAGE_REGISTRY)
+  get packageRegistry(): PerkManagerPackageRegistry {
+    return getActiveProfile().packageRegistry;
   },
-  
+
   // Shared Objects (required for Alpha Points balance queries)
-  // These MUST be provided via environment variables - no fallbacks
-  sharedObjects: {
-    config: isValidSuiObjectId(import.meta.env.VITE_CONFIG_ID) 
-      ? import.meta.env.VITE_CONFIG_ID 
-      : handleInvalidId('VITE_CONFIG_ID', import.meta.env.VITE_CONFIG_ID),
-    ledger: isValidSuiObjectId(import.meta.env.VITE_LEDGER_ID) 
-      ? import.meta.env.VITE_LEDGER_ID 
-      : handleInvalidId('VITE_LEDGER_ID', import.meta.env.VITE_LEDGER_ID),
-    stakingManager: isValidSuiObjectId(import.meta.env.VITE_STAKING_MANAGER_ID) 
-      ? import.meta.env.VITE_STAKING_MANAGER_ID 
-      : handleInvalidId('VITE_STAKING_MANAGER_ID', import.meta.env.VITE_STAKING_MANAGER_ID),
-    oracle: isValidSuiObjectId(import.meta.env.VITE_ORACLE_ID) 
-      ? import.meta.env.VITE_ORACLE_ID 
-      : handleInvalidId('VITE_ORACLE_ID', import.meta.env.VITE_ORACLE_ID),
-  },
-  
+  // These MUST be provided via environment variables - no fallbacks,
+  // except in demo mode where they are fixture objects
+  get sharedObjects(): SharedObjectIds {
+    const sharedObjects = getActiveProfile().sharedObjects;
+    if (!sharedObjects) {
+      const missing = Object.values(SHARED_OBJECT_ENV).find(envName => {
+        const id = readNetworkEnv(envName, activeNetwork);
+        return !id || !isValidSuiObjectId(id);
+      });
+      return handleInvalidId(missing ?? 'shared object ID', activeNetwork);
+    }
+    return sharedObjects;
+  },
+
   // Object types
   types: {
     claimedPerk: (packageId: string) => `${packageId}::perk_manager::ClaimedPerk`,
@@ -44,6 +270,32 @@ export const SUI_CONFIG = {
   },
 } as const;
 
+// Fail at startup, as before, when the network we start on isn't configured
+void SUI_CONFIG.sharedObjects;
+
+// Package IDs to read perk_manager events and objects from
+export const getPerkManagerReadPackageIds = (): string[] => SUI_CONFIG.packageRegistry.versions;
+
+// Package ID to use as the moveCall target for new transactions
+export const getPerkManagerTransactionPackageId = (): string => SUI_CONFIG.packageRegistry.transactionTarget;
+
+// Check whether a package ID is a registered perk_manager version
+export const isPerkManagerPackage = (packageId: string): boolean => {
+  const normalized = normalizeSuiObjectId(packageId);
+  return [...getPerkManagerReadPackageIds(), getPerkManagerTransactionPackageId()]
+    .some(registered => normalizeSuiObjectId(registered) === normalized);
+};
+
+// Fully-qualified perk_manager struct types across every registered version
+export const getPerkManagerStructTypes = (structName: string): string[] =>
+  getPerkManagerReadPackageIds().map(packageId => `${packageId}::perk_manager::${structName}`);
+
+// Check whether an on-chain type belongs to any registered perk_manager version
+export const isPerkManagerType = (objectType: string | undefined, structName: string): boolean => {
+  if (!objectType) return false;
+  return getPerkManagerStructTypes(structName).includes(objectType);
+};
+
 // Helper to check if using real contracts or mock data
 export const isUsingRealContracts = () => {
   const packageId = SUI_CONFIG.packageIds.perkManager;
@@ -52,11 +304,14 @@ export const isUsingRealContracts = () => {
 };
 
 // Helper to get the appropriate network display name
-export const getNetworkDisplayName = () => {
-  switch (SUI_CONFIG.network) {
-    case 'mainnet': return 'Mainnet';
-    case 'testnet': return 'Testnet';
-    case 'devnet': return 'Devnet';
-    default: return 'Unknown';
-  }
-}; 
\ No newline at end of file
+export const getNetworkDisplayName = (network: SuiNetwork = activeNetwork) => {
+  if (SUI_CONFIG.demoMode) return 'Demo';
+  return NETWORK_DISPLAY_NAMES[network] ?? 'Unknown';
+};
+
+// Helper to link a transaction in the block explorer. Null where there is
+// no public explorer (demo mode and localnet).
+export const getExplorerTransactionUrl = (digest: string, network: SuiNetwork = activeNetwork): string | null => {
+  if (SUI_CONFIG.demoMode || network === 'localnet') return null;
+  return `https://suiscan.xyz/${network}/tx/${digest}`;
+};
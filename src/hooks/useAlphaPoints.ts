@@ -1,149 +1,146 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback } from 'react';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import type { SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
-import { SUI_CONFIG } from '../config/sui';
+import { SUI_CONFIG, getPerkManagerTransactionPackageId } from '../config/sui';
+import { decodeU64ReturnValue } from '../utils/codec';
+import type { PointsAmount } from '../types/index';
 
-interface PointBalance {
-  available: number;
-  locked: number;
-  total: number;
+export interface PointBalance {
+  available: PointsAmount;
+  locked: PointsAmount;
+  total: PointsAmount;
 }
 
+const EMPTY_BALANCE: PointBalance = { available: 0n, locked: 0n, total: 0n };
+const BALANCE_REFRESH_INTERVAL_MS = 30000; // 30 seconds
+
 /**
- * Decoder for u64 values from Sui Move call results
+ * Query key for an account's balance. Scoped to network and package so a
+ * config change never serves another ledger's balance.
  */
-function decodeU64(bytesInput: Array<number> | Uint8Array | unknown): number {
-  let bytes: Uint8Array;
-
-  if (Array.isArray(bytesInput) && bytesInput.every(n => typeof n === 'number')) {
-    bytes = new Uint8Array(bytesInput);
-  } else if (bytesInput instanceof Uint8Array) {
-    bytes = bytesInput;
-  } else {
-    return 0;
-  }
+export const alphaPointsQueryKey = (address: string | undefined) =>
+  ['alphaPoints', SUI_CONFIG.network, getPerkManagerTransactionPackageId(), address] as const;
+
+/**
+ * Read available and locked points from the ledger in one devInspect
+ */
+export const fetchAlphaPointsBalance = async (client: SuiClient, address: string): Promise<PointBalance> => {
+  const txb = new Transaction();
+
+  txb.moveCall({
+    target: `${getPerkManagerTransactionPackageId()}::ledger::get_available_balance`,
+    arguments: [
+      txb.object(SUI_CONFIG.sharedObjects.ledger),
+      txb.pure.address(address),
+    ],
+    typeArguments: [],
+  });
+
+  txb.moveCall({
+    target: `${getPerkManagerTransactionPackageId()}::ledger::get_locked_balance`,
+    arguments: [
+      txb.object(SUI_CONFIG.sharedObjects.ledger),
+      txb.pure.address(address),
+    ],
+    typeArguments: [],
+  });
+
+  const inspectResult = await client.devInspectTransactionBlock({
+    sender: address,
+    transactionBlock: txb,
+  });
 
-  if (!bytes || bytes.length !== 8) {
-    return 0;
+  const status = inspectResult?.effects?.status?.status;
+  if (status !== 'success') {
+    const errorMsg = inspectResult?.effects?.status?.error || 'Unknown devInspect error';
+    throw new Error(`Failed to fetch points: ${errorMsg}`);
   }
-  
-  try {
-    const dataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-    const valueBigInt = dataView.getBigUint64(0, true); // true for little-endian
-    return Number(valueBigInt);
-  } catch (err) {
-    return 0;
+
+  if (!inspectResult.results || inspectResult.results.length < 2) {
+    throw new Error('Could not retrieve point balances: Invalid response structure.');
   }
-}
+
+  const available = decodeU64ReturnValue(inspectResult.results[0]?.returnValues?.[0]);
+  const locked = decodeU64ReturnValue(inspectResult.results[1]?.returnValues?.[0]);
+
+  return { available, locked, total: available + locked };
+};
 
 /**
- * Hook for fetching and managing Alpha Points balance
+ * Hook for the connected account's Alpha Points balance. Every caller shares
+ * one cached query, refreshed every 30 seconds.
  */
 export const useAlphaPoints = () => {
   const currentAccount = useCurrentAccount();
   const client = useSuiClient();
-  
-  const [loading, setLoading] = useState(true);
-  const [points, setPoints] = useState<PointBalance>({ available: 0, locked: 0, total: 0 });
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchPoints = useCallback(async () => {
-    if (!currentAccount?.address) {
-      setPoints({ available: 0, locked: 0, total: 0 });
-      setLoading(false);
-      setError(null);
-      return;
-    }
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const txb = new Transaction();
-
-      txb.moveCall({
-        target: `${SUI_CONFIG.packageIds.perkManager}::ledger::get_available_balance`,
-        arguments: [
-          txb.object(SUI_CONFIG.sharedObjects.ledger),
-          txb.pure.address(currentAccount.address),
-        ],
-        typeArguments: [],
-      });
-
-      txb.moveCall({
-        target: `${SUI_CONFIG.packageIds.perkManager}::ledger::get_locked_balance`,
-        arguments: [
-          txb.object(SUI_CONFIG.sharedObjects.ledger),
-          txb.pure.address(currentAccount.address),
-        ],
-        typeArguments: [],
-      });
-
-      const inspectResult = await client.devInspectTransactionBlock({
-        sender: currentAccount.address,
-        transactionBlock: txb,
-      });
-      
-      const status = inspectResult?.effects?.status?.status;
-      if (status !== 'success') {
-        const errorMsg = inspectResult?.effects?.status?.error || 'Unknown devInspect error';
-        throw new Error(`Failed to fetch points: ${errorMsg}`);
-      }
-      
-      if (!inspectResult.results || inspectResult.results.length < 2) {
-        throw new Error('Could not retrieve point balances: Invalid response structure.');
-      }
-      
-      let available = 0;
-      let locked = 0;
-      
-      const availableResult = inspectResult.results[0];
-      if (availableResult?.returnValues?.[0]) {
-        const [bytes, type] = availableResult.returnValues[0];
-        if (type === 'u64' && Array.isArray(bytes)) {
-          available = decodeU64(bytes);
-        }
-      }
-      
-      const lockedResult = inspectResult.results[1];
-      if (lockedResult?.returnValues?.[0]) {
-        const [bytes, type] = lockedResult.returnValues[0];
-        if (type === 'u64' && Array.isArray(bytes)) {
-          locked = decodeU64(bytes);
-        }
-      }
-      
-      const totalPoints = available + locked;
-      setPoints({
-        available,
-        locked,
-        total: totalPoints,
-      });
-      
-    } catch (error: any) {
-      console.error('Error fetching Alpha Points:', error);
-      setError(error.message || 'An unknown error occurred while fetching points.');
-    } finally {
-      setLoading(false);
-    }
-  }, [currentAccount?.address, client]);
-
-  useEffect(() => {
-    fetchPoints();
-  }, [fetchPoints]);
-
-  // Auto-refresh every 30 seconds
-  useEffect(() => {
-    if (!currentAccount?.address) return;
-
-    const interval = setInterval(fetchPoints, 30000);
-    return () => clearInterval(interval);
-  }, [currentAccount?.address, fetchPoints]);
-
-  return { 
-    points, 
-    loading, 
-    error, 
-    refetch: fetchPoints
+  const address = currentAccount?.address;
+
+  const query = useQuery({
+    queryKey: alphaPointsQueryKey(address),
+    queryFn: () => fetchAlphaPointsBalance(client, address!),
+    enabled: !!address,
+    refetchInterval: BALANCE_REFRESH_INTERVAL_MS,
+  });
+
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  return {
+    points: query.data ?? EMPTY_BALANCE,
+    loading: !!address && query.isPending,
+    error: query.error ? query.error.message || 'An unknown error occurred while fetching points.' : null,
+    refetch,
   };
-}; 
\ No newline at end of file
+};
+
+/**
+ * Deduct points from the cached balance before the chain confirms a claim.
+ * Returns a function that restores the previous balance.
+ */
+export const deductAlphaPointsOptimistically = (
+  queryClient: QueryClient,
+  address: string,
+  amount: PointsAmount
+): (() => void) => {
+  const queryKey = alphaPointsQueryKey(address);
+  const previous = queryClient.getQueryData<PointBalance>(queryKey);
+
+  // Don't let a poll that started before the claim overwrite the deduction
+  void queryClient.cancelQueries({ queryKey });
+
+  if (previous) {
+    const available = previous.available > amount ? previous.available - amount : 0n;
+    queryClient.setQueryData<PointBalance>(queryKey, {
+      available,
+      locked: previous.locked,
+      total: available + previous.locked,
+    });
+  }
+
+  return () => {
+    if (previous) queryClient.setQueryData(queryKey, previous);
+  };
+};
+
+/**
+ * Helpers for keeping the balance in step with claim transactions
+ */
+export const useAlphaPointsUpdater = () => {
+  const queryClient = useQueryClient();
+
+  // Refetch the balance (every account when no address is given)
+  const invalidate = useCallback((address?: string) =>
+    queryClient.invalidateQueries({
+      queryKey: address ? alphaPointsQueryKey(address) : ['alphaPoints'],
+    }), [queryClient]);
+
+  const deduct = useCallback((address: string, amount: PointsAmount) =>
+    deductAlphaPointsOptimistically(queryClient, address, amount), [queryClient]);
+
+  return { deduct, invalidate };
+};
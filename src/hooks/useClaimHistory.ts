@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { SUI_CONFIG } from '../config/sui';
+import { fetchHistoryPage } from '../services/claimHistory';
+
+/**
+ * Query key for an account's history, scoped to network like the balance
+ */
+export const claimHistoryQueryKey = (address: string | undefined) =>
+  ['claimHistory', SUI_CONFIG.network, address] as const;
+
+/**
+ * The connected account's claims and redemptions, newest first, loaded a
+ * page of transactions at a time
+ */
+export const useClaimHistory = () => {
+  const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const address = currentAccount?.address;
+
+  const query = useInfiniteQuery({
+    queryKey: claimHistoryQueryKey(address),
+    queryFn: ({ pageParam }) => fetchHistoryPage(client, address!, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasNextPage ? lastPage.nextCursor : undefined),
+    enabled: !!address,
+  });
+
+  const entries = useMemo(() => query.data?.pages.flatMap(page => page.entries) ?? [], [query.data]);
+
+  return {
+    entries,
+    loading: !!address && query.isPending,
+    error: query.error ? query.error.message || 'Failed to load history' : null,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+    refetch: query.refetch,
+  };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DiscordAuthService } from '../services/discord';
+import type { DiscordUser } from '../types/index';
+
+// The OAuth redirect lands with the token in the URL fragment. Handle it
+// once per page load, however many components use the hook.
+let callbackPromise: Promise<DiscordUser | null> | null = null;
+
+const handleOAuthRedirect = (): Promise<DiscordUser | null> => {
+  if (!callbackPromise) {
+    const params = new URLSearchParams(window.location.hash.substring(1));
+    const accessToken = params.get('access_token');
+    const state = params.get('state');
+
+    callbackPromise = accessToken && state
+      ? DiscordAuthService.getInstance().handleCallback(accessToken, state).finally(() => {
+          // Drop the token from the address bar
+          window.history.replaceState({}, document.title, window.location.origin + window.location.pathname);
+        })
+      : Promise.resolve(null);
+  }
+  return callbackPromise;
+};
+
+/**
+ * Discord account connected through OAuth, for perks that need a Discord ID
+ */
+export const useDiscordAuth = () => {
+  const service = DiscordAuthService.getInstance();
+  const [user, setUser] = useState<DiscordUser | null>(() => service.getCurrentUser());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    handleOAuthRedirect()
+      .then(callbackUser => {
+        if (!cancelled && callbackUser) setUser(callbackUser);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Discord connection failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Redirects to Discord and back
+  const connect = useCallback(() => service.initiateOAuth(), [service]);
+
+  const disconnect = useCallback(() => {
+    service.logout();
+    setUser(null);
+  }, [service]);
+
+  return { user, error, connect, disconnect };
+};
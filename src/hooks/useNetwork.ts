@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveNetwork, onActiveNetworkChange, setActiveNetwork } from '../config/sui';
+import type { SuiNetwork } from '../config/sui';
+
+const subscribe = (onChange: () => void) => onActiveNetworkChange(onChange);
+
+/**
+ * The active Sui network, re-rendering on switches
+ */
+export const useActiveNetwork = (): [SuiNetwork, (network: SuiNetwork) => void] => [
+  useSyncExternalStore(subscribe, getActiveNetwork),
+  setActiveNetwork,
+];
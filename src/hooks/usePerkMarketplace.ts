@@ -1,45 +1,73 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { SuiClient } from '@mysten/sui/client';
+import type { EventId } from '@mysten/sui/client';
 import { toast } from 'react-hot-toast';
 import { BRAND_CONFIG, shouldDisplayPerk } from '../config/brand';
-import { SUI_CONFIG } from '../config/sui';
+import {
+  SUI_CONFIG,
+  getPerkManagerReadPackageIds,
+  getPerkManagerTransactionPackageId,
+} from '../config/sui';
+import { getObjectLoader } from '../services/objectLoader';
+import { getClaimedPerkDefinitionId, getOwnedClaimedPerks } from '../services/ownedObjects';
+import { parsePerkDefinition } from '../utils/perkDefinition';
+import { toLegacyPerkDefinition } from '../utils/perkCompat';
+import { canAffordPoints, comparePoints } from '../utils/points';
+import { catalogCache } from '../services/catalogCache';
+
+import { useAlphaPoints, useAlphaPointsUpdater } from './useAlphaPoints';
 
 import type { PerkDefinition } from '../types/index';
 
-// Cache configuration
-const CACHE_KEY = 'curated_marketplace_perks';
-const CACHE_EXPIRY_KEY = 'curated_marketplace_perks_expiry';
-const CACHE_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+// The catalog used to live in one localStorage blob - drop it to free quota
+const LEGACY_CACHE_KEYS = ['curated_marketplace_perks', 'curated_marketplace_perks_expiry'];
 
-const getLocalStorageCache = (): PerkDefinition[] | null => {
+const clearLegacyCache = () => {
   try {
-    const cached = localStorage.getItem(CACHE_KEY);
-    const expiry = localStorage.getItem(CACHE_EXPIRY_KEY);
-    
-    if (cached && expiry) {
-      const expiryTime = parseInt(expiry);
-      if (Date.now() < expiryTime) {
-        return JSON.parse(cached) as PerkDefinition[];
-      } else {
-        localStorage.removeItem(CACHE_KEY);
-        localStorage.removeItem(CACHE_EXPIRY_KEY);
+    LEGACY_CACHE_KEYS.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // localStorage unavailable - nothing to clear
+  }
+};
+
+// Live updates - perk_manager events are polled so price changes, claims and
+// deactivations show up without a full reload
+const LIVE_UPDATE_INTERVAL_MS = 15 * 1000;
+const UPDATED_HIGHLIGHT_MS = 5 * 1000;
+
+// Event discovery index - persisted per network and package so a refresh
+// only walks PerkDefinitionCreated events emitted since the last visit
+const DISCOVERY_KEY_PREFIX = 'curated_marketplace_discovery_';
+const EVENT_PAGE_SIZE = 50;
+
+const discoveryKey = (packageId: string) => `${DISCOVERY_KEY_PREFIX}${SUI_CONFIG.network}_${packageId}`;
+
+interface PerkDiscoveryIndex {
+  cursor: EventId | null; // Last PerkDefinitionCreated event seen
+  perkIds: string[]; // Every perk ID discovered so far
+}
+
+const getDiscoveryIndex = (packageId: string): PerkDiscoveryIndex => {
+  try {
+    const stored = localStorage.getItem(discoveryKey(packageId));
+    if (stored) {
+      const parsed = JSON.parse(stored) as PerkDiscoveryIndex;
+      if (Array.isArray(parsed.perkIds)) {
+        return { cursor: parsed.cursor ?? null, perkIds: parsed.perkIds };
       }
     }
-  } catch (err) {
-    localStorage.removeItem(CACHE_KEY);
-    localStorage.removeItem(CACHE_EXPIRY_KEY);
+  } catch {
+    localStorage.removeItem(discoveryKey(packageId));
   }
-  return null;
+  return { cursor: null, perkIds: [] };
 };
 
-const setLocalStorageCache = (perks: PerkDefinition[]) => {
+const setDiscoveryIndex = (packageId: string, index: PerkDiscoveryIndex) => {
   try {
-    const expiryTime = Date.now() + CACHE_DURATION_MS;
-    localStorage.setItem(CACHE_KEY, JSON.stringify(perks));
-    localStorage.setItem(CACHE_EXPIRY_KEY, expiryTime.toString());
-  } catch (err) {
-          // Failed to cache perks - continue silently
+    localStorage.setItem(discoveryKey(packageId), JSON.stringify(index));
+  } catch {
+    // Failed to persist discovery index - next visit re-walks from the old cursor
   }
 };
 
@@ -52,154 +80,245 @@ export const usePerkMarketplace = () => {
   const [error, setError] = useState<string | null>(null);
   const [partnerNames, setPartnerNames] = useState<Map<string, string>>(new Map());
   const [claimedPerks, setClaimedPerks] = useState<Set<string>>(new Set());
-  const [userAlphaPoints, setUserAlphaPoints] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
-  // Fetch all marketplace perks
-  const fetchMarketplacePerks = async (): Promise<PerkDefinition[]> => {
-    if (!suiClient) return [];
-    
+  // Balance comes from the shared Alpha Points query
+  const { points } = useAlphaPoints();
+  const { invalidate: invalidateAlphaPoints } = useAlphaPointsUpdater();
+  const userAlphaPoints = points.available;
+
+  const [updatedPerkIds, setUpdatedPerkIds] = useState<Set<string>>(new Set());
+
+  // Guards against a superseded load streaming pages into state
+  const loadIdRef = useRef(0);
+  const requestedPartnerCapIds = useRef<Set<string>>(new Set());
+
+  // Live update state - latest event seen per package, and highlight timers
+  const liveCursors = useRef<Map<string, EventId | null>>(new Map());
+  const isPollingRef = useRef(false);
+  const highlightTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  // Load one perk: null when it is inactive or malformed, undefined when the read failed
+  const loadPerk = async (id: string): Promise<PerkDefinition | null | undefined> => {
     try {
-      // Use all known package IDs like the main frontend does
-      const ALL_PACKAGE_IDS = [
-        SUI_CONFIG.packageIds.perkManager, // Current package
-        '0xf933e69aeeeebb9d1fc50b6324070d8f2bdc2595162b0616142a509c90e3cd16', // Known package with perks
-        '0xfd761a2a5979db53f7f3176c0778695f6abafbb7c0eec8ce03136ae10dc2b47d', // Another known package
-      ].filter(Boolean);
-      
-      // Fetching perks from multiple package IDs
-      
-      const allPerkIds: string[] = [];
-      
-      // Query each package for perk creation events
-      for (const packageId of ALL_PACKAGE_IDS) {
-        try {
+      const parsed = parsePerkDefinition(await getObjectLoader(suiClient).load(id));
 
-          
-          const perkCreatedEvents = await suiClient.queryEvents({
-            query: {
-              MoveEventType: `${packageId}::perk_manager::PerkDefinitionCreated`
-            },
-            order: 'descending',
-            limit: 50,
-          });
+      // Malformed definitions are skipped rather than rendered with guessed defaults
+      if (!parsed.ok || !parsed.perk.isActive) {
+        return null;
+      }
 
+      return toLegacyPerkDefinition(parsed.perk, {
+        packageId: getPerkManagerTransactionPackageId(), // Transactions always target the current package
+      });
+    } catch {
+      return undefined;
+    }
+  };
 
-          
-          for (const event of perkCreatedEvents.data) {
-            if (event.parsedJson && typeof event.parsedJson === 'object') {
-              const eventData = event.parsedJson as any;
-              allPerkIds.push(eventData.perk_definition_id);
-            }
-          }
-        } catch (packageError) {
-          // Failed to query package - continue with next
+  // Fetch the current state of several perks. Perks that could not be read
+  // are left out so callers keep whatever they already have.
+  const fetchPerkUpdates = async (perkIds: string[]): Promise<Map<string, PerkDefinition | null>> => {
+    const updates = new Map<string, PerkDefinition | null>();
+
+    // The loader coalesces these into multiGetObjects calls of up to 50 IDs
+    await Promise.all(perkIds.map(async (id) => {
+      const perk = await loadPerk(id);
+      if (perk !== undefined) {
+        updates.set(id, perk);
+      }
+    }));
+
+    return updates;
+  };
+
+  // Walk PerkDefinitionCreated events for one package, starting after the
+  // persisted cursor, handing each page of new perk IDs to onPage
+  const discoverNewPerkIds = async (
+    packageId: string,
+    index: PerkDiscoveryIndex,
+    onPage: (perkIds: string[]) => Promise<void>
+  ) => {
+    const knownIds = new Set(index.perkIds);
+    let cursor = index.cursor;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await suiClient.queryEvents({
+        query: {
+          MoveEventType: `${packageId}::perk_manager::PerkDefinitionCreated`
+        },
+        cursor,
+        order: 'ascending',
+        limit: EVENT_PAGE_SIZE,
+      });
+
+      const pageIds: string[] = [];
+      for (const event of page.data) {
+        const eventData = (event.parsedJson ?? {}) as Record<string, unknown>;
+        const perkId = eventData.perk_definition_id;
+        if (typeof perkId === 'string' && !knownIds.has(perkId)) {
+          knownIds.add(perkId);
+          pageIds.push(perkId);
         }
       }
-      
-      if (allPerkIds.length === 0) {
-        return [];
+
+      const lastEvent = page.data[page.data.length - 1];
+      if (lastEvent) {
+        cursor = lastEvent.id;
       }
 
-      // Fetch perk details
-      const fetchedPerks: PerkDefinition[] = [];
-      const batchSize = 5; // Small batches for reliability
-      
-      for (let i = 0; i < allPerkIds.length; i += batchSize) {
-        const batch = allPerkIds.slice(i, i + batchSize);
-        const batchPromises = batch.map(async (id) => {
-          try {
-            const result = await suiClient.getObject({
-              id,
-              options: { showContent: true, showType: true },
+      // Persist progress after every page so an interrupted walk resumes here
+      setDiscoveryIndex(packageId, { cursor, perkIds: Array.from(knownIds) });
+
+      if (pageIds.length > 0) {
+        await onPage(pageIds);
+      }
+
+      hasNextPage = page.hasNextPage && !!page.nextCursor;
+    }
+  };
+
+  // Flag perks as recently updated so cards can highlight the change
+  const markPerksUpdated = (perkIds: string[]) => {
+    if (perkIds.length === 0) return;
+
+    setUpdatedPerkIds(prev => new Set([...prev, ...perkIds]));
+    perkIds.forEach(id => {
+      const existing = highlightTimers.current.get(id);
+      if (existing) clearTimeout(existing);
+
+      highlightTimers.current.set(id, setTimeout(() => {
+        highlightTimers.current.delete(id);
+        setUpdatedPerkIds(prev => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, UPDATED_HIGHLIGHT_MS));
+    });
+  };
+
+  // Patch individual perks in place and in the cache - null removes a perk
+  // that was deactivated. Highlighting is for changes seen while browsing.
+  const applyPerkUpdates = (
+    packageId: string,
+    updates: Map<string, PerkDefinition | null>,
+    highlight = false
+  ) => {
+    if (updates.size === 0) return;
+
+    const visibleUpdates = new Map<string, PerkDefinition | null>();
+    updates.forEach((perk, id) => {
+      visibleUpdates.set(id, perk && shouldDisplayPerk(perk, BRAND_CONFIG) ? perk : null);
+    });
+
+    setPerks(prev => {
+      const next = prev
+        .filter(perk => visibleUpdates.get(perk.id) !== null)
+        .map(perk => visibleUpdates.get(perk.id) ?? perk);
+
+      const knownIds = new Set(prev.map(perk => perk.id));
+      visibleUpdates.forEach((perk, id) => {
+        if (perk && !knownIds.has(id)) next.push(perk);
+      });
+      return next;
+    });
+
+    if (highlight) {
+      markPerksUpdated(Array.from(visibleUpdates.entries())
+        .filter(([, perk]) => perk !== null)
+        .map(([id]) => id));
+    }
+
+    // Cache all perks, filter on display
+    const active = new Map<string, PerkDefinition>();
+    const removed: string[] = [];
+    updates.forEach((perk, id) => {
+      if (perk) active.set(id, perk);
+      else removed.push(id);
+    });
+    catalogCache.setMany('perk', active, { packageId });
+    catalogCache.delete('perk', removed, packageId);
+
+    const newPartnerCapIds = [...new Set(
+      Array.from(visibleUpdates.values())
+        .filter((perk): perk is PerkDefinition => perk !== null)
+        .map(perk => perk.creator_partner_cap_id)
+    )].filter(id => !requestedPartnerCapIds.current.has(id));
+    newPartnerCapIds.forEach(id => requestedPartnerCapIds.current.add(id));
+    fetchPartnerNames(newPartnerCapIds);
+  };
+
+  // Poll perk_manager events since the last seen cursor and refetch the perks
+  // they touch. The first poll per package only records the current head.
+  const pollPerkEvents = async () => {
+    if (!suiClient || isPollingRef.current) return;
+    isPollingRef.current = true;
+
+    try {
+      const touchedIds = new Map<string, Set<string>>(); // packageId -> perk IDs
+      let claimedByUser = false;
+
+      for (const packageId of getPerkManagerReadPackageIds()) {
+        try {
+          const query = { MoveModule: { package: packageId, module: 'perk_manager' } };
+
+          if (!liveCursors.current.has(packageId)) {
+            const head = await suiClient.queryEvents({ query, order: 'descending', limit: 1 });
+            liveCursors.current.set(packageId, head.data[0]?.id ?? null);
+            continue;
+          }
+
+          let cursor = liveCursors.current.get(packageId) ?? null;
+          let hasNextPage = true;
+          const packagePerkIds = new Set<string>();
+          touchedIds.set(packageId, packagePerkIds);
+
+          while (hasNextPage) {
+            const page = await suiClient.queryEvents({
+              query,
+              cursor,
+              order: 'ascending',
+              limit: EVENT_PAGE_SIZE,
             });
 
-            if (result?.data?.content && result.data.content.dataType === 'moveObject') {
-              const fields = (result.data.content as any).fields;
-              const revenueSplit = fields.revenue_split_policy?.fields || fields.revenue_split_policy || {};
-              
-              return {
-                // Core identification (both formats)
-                id: result.data.objectId,
-                objectId: result.data.objectId,
-                
-                // Basic info
-                name: fields.name || 'Unknown Perk',
-                description: fields.description || '',
-                
-                // Creator and type (both formats)
-                creator_partner_cap_id: fields.creator_partner_cap_id,
-                creatorPartnerCapId: fields.creator_partner_cap_id,
-                perk_type: fields.perk_type || 'General',
-                perkType: fields.perk_type || 'General',
-                
-                // Pricing (both formats)
-                usdc_price: parseFloat(fields.usdc_price || '0'),
-                usdcPrice: parseFloat(fields.usdc_price || '0'),
-                current_alpha_points_price: parseFloat(fields.current_alpha_points_price || '0'),
-                currentAlphaPointsPrice: parseFloat(fields.current_alpha_points_price || '0'),
-                
-                // Metadata (both formats)
-                last_price_update_timestamp_ms: parseInt(fields.last_price_update_timestamp_ms || '0'),
-                lastPriceUpdateTimestamp: parseInt(fields.last_price_update_timestamp_ms || '0'),
-                
-                // Claims and limits (both formats)
-                max_claims: fields.max_claims ? parseInt(fields.max_claims) : undefined,
-                maxClaims: fields.max_claims ? parseInt(fields.max_claims) : undefined,
-                total_claims_count: parseInt(fields.total_claims_count || '0'),
-                totalClaimsCount: parseInt(fields.total_claims_count || '0'),
-                
-                // Status and features (both formats)
-                is_active: fields.is_active || false,
-                isActive: fields.is_active || false,
-                generates_unique_claim_metadata: fields.generates_unique_claim_metadata || false,
-                generatesUniqueClaimMetadata: fields.generates_unique_claim_metadata || false,
-                
-                // Usage and expiration (both formats)
-                max_uses_per_claim: fields.max_uses_per_claim ? parseInt(fields.max_uses_per_claim) : undefined,
-                maxUsesPerClaim: fields.max_uses_per_claim ? parseInt(fields.max_uses_per_claim) : undefined,
-                expiration_timestamp_ms: fields.expiration_timestamp_ms ? parseInt(fields.expiration_timestamp_ms) : undefined,
-                expirationTimestamp: fields.expiration_timestamp_ms ? parseInt(fields.expiration_timestamp_ms) : undefined,
-                
-                // Tags and metadata
-                tags: Array.isArray(fields.tags) ? fields.tags : (fields.tags?.length > 0 ? [fields.tags] : []),
-                tag_metadata_id: fields.tag_metadata_id,
-                tagMetadataId: fields.tag_metadata_id,
-                definition_metadata_id: fields.definition_metadata_id,
-                definitionMetadataId: fields.definition_metadata_id,
-                
-                // Additional fields for UI
-                icon: fields.icon,
-                claimCount: parseInt(fields.total_claims_count || '0'),
-                packageId: SUI_CONFIG.packageIds.perkManager, // Use the main package ID for transactions
-                
-                // Revenue sharing
-                partner_share_percentage: parseInt(revenueSplit.partner_share_percentage || '70'),
-                platform_share_percentage: parseInt(revenueSplit.platform_share_percentage || '30'),
-              } as PerkDefinition;
+            for (const event of page.data) {
+              const eventData = (event.parsedJson ?? {}) as Record<string, unknown>;
+              const perkId = eventData.perk_definition_id ?? eventData.perk_id;
+              if (typeof perkId === 'string') {
+                packagePerkIds.add(perkId);
+              }
+              if (event.sender === currentAccount?.address) {
+                claimedByUser = true;
+              }
             }
-          } catch (err) {
-            // Failed to fetch perk - continue with next
-            return null;
+
+            const lastEvent = page.data[page.data.length - 1];
+            if (lastEvent) {
+              cursor = lastEvent.id;
+            }
+            hasNextPage = page.hasNextPage && !!page.nextCursor;
           }
-        });
 
-        const batchResults = await Promise.all(batchPromises);
-        const validPerks = batchResults.filter((perk): perk is PerkDefinition => 
-          perk !== null && perk.is_active
-        );
-        fetchedPerks.push(...validPerks);
-        
-        // Small delay between batches
-        if (i + batchSize < allPerkIds.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
+          liveCursors.current.set(packageId, cursor);
+        } catch {
+          // Failed to poll package - retry on the next tick
         }
       }
 
+      for (const [packageId, perkIds] of touchedIds) {
+        if (perkIds.size > 0) {
+          applyPerkUpdates(packageId, await fetchPerkUpdates(Array.from(perkIds)), true);
+        }
+      }
 
-      return fetchedPerks;
-    } catch (error) {
-      // Failed to fetch marketplace perks
-      throw error;
+      if (claimedByUser) {
+        await fetchClaimedPerks();
+        await invalidateAlphaPoints(currentAccount?.address);
+      }
+    } finally {
+      isPollingRef.current = false;
     }
   };
 
@@ -208,17 +327,26 @@ export const usePerkMarketplace = () => {
     if (!suiClient || partnerCapIds.length === 0) return;
 
     try {
+      // Show cached names straight away and only refetch missing or stale ones
+      const cached = await Promise.all(partnerCapIds.map(id => catalogCache.get<string>('partnerName', id)));
+      const cachedNames = new Map<string, string>();
+      const staleIds: string[] = [];
+      partnerCapIds.forEach((id, index) => {
+        const entry = cached[index];
+        if (entry) cachedNames.set(id, entry.value);
+        if (!entry || entry.isStale) staleIds.push(id);
+      });
+      if (cachedNames.size > 0) {
+        setPartnerNames(prev => new Map([...prev, ...cachedNames]));
+      }
+      if (staleIds.length === 0) return;
+
       const newNames = new Map<string, string>();
-      
-      for (const partnerCapId of partnerCapIds) {
+      const loader = getObjectLoader(suiClient);
+
+      await Promise.all(staleIds.map(async (partnerCapId) => {
         try {
-          const result = await suiClient.getObject({
-            id: partnerCapId,
-            options: {
-              showContent: true,
-              showType: true,
-            },
-          });
+          const result = await loader.load(partnerCapId);
 
           if (result?.data?.content && result.data.content.dataType === 'moveObject') {
             const fields = (result.data.content as any).fields;
@@ -227,12 +355,18 @@ export const usePerkMarketplace = () => {
           } else {
             newNames.set(partnerCapId, 'Unknown Partner');
           }
-        } catch (error) {
-          newNames.set(partnerCapId, 'Unknown Partner');
+        } catch {
+          // Keep a cached name over a placeholder when the read fails
+          if (!cachedNames.has(partnerCapId)) {
+            newNames.set(partnerCapId, 'Unknown Partner');
+          }
         }
-      }
+      }));
       
       setPartnerNames(prev => new Map([...prev, ...newNames]));
+      catalogCache.setMany('partnerName', new Map(
+        Array.from(newNames).filter(([, name]) => name !== 'Unknown Partner')
+      ));
     } catch (error) {
       // Failed to fetch partner names
     }
@@ -245,249 +379,165 @@ export const usePerkMarketplace = () => {
       return;
     }
 
-    try {
-      const packageId = SUI_CONFIG.packageIds.perkManager;
-      
-      // Query for ClaimedPerk objects owned by the current user
-      let claimedObjects = await suiClient.getOwnedObjects({
-        owner: currentAccount.address,
-        filter: {
-          StructType: `${packageId}::perk_manager::ClaimedPerk`
-        },
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-
+    // Owned-object snapshot from the last visit, shown while we refetch
+    const snapshotId = `claimedPerkDefinitions:${currentAccount.address}`;
+    const snapshot = await catalogCache.get<string[]>('ownedObjects', snapshotId);
+    if (snapshot) {
+      setClaimedPerks(new Set(snapshot.value));
+    }
 
+    try {
+      // Every page, so owners of many objects see all of their claims
+      const claimedObjects = await getOwnedClaimedPerks(suiClient, currentAccount.address);
 
-      // If no results, try querying all objects and filtering (fallback mechanism like main frontend)
-      if (claimedObjects.data.length === 0) {
-        // No results with specific filter, trying fallback method
-        const allObjects = await suiClient.getOwnedObjects({
-          owner: currentAccount.address,
-          options: {
-            showContent: true,
-            showType: true,
-          },
-        });
-        
-        // Filter for ClaimedPerk objects
-        const claimedPerkObjects = allObjects.data.filter((obj: any) => {
-          const objectType = obj.data?.type;
-          return objectType && objectType.includes('ClaimedPerk');
-        });
-        
-
-        
-        claimedObjects = {
-          data: claimedPerkObjects,
-          hasNextPage: false,
-          nextCursor: null
-        };
-      }
-      
       const claimedPerkIds = new Set<string>();
-      
-      claimedObjects.data.forEach((obj: any) => {
-        if (obj.data?.content && obj.data.content.dataType === 'moveObject') {
-          const fields = (obj.data.content as any).fields;
-          
-          // Try different possible field names
-          const perkDefinitionId = fields.perk_definition_id || fields.perkDefinitionId || fields.definition_id;
-          
-          if (perkDefinitionId) {
-  
-            claimedPerkIds.add(perkDefinitionId);
-          }
+      claimedObjects.forEach(obj => {
+        const perkDefinitionId = getClaimedPerkDefinitionId(obj);
+        if (perkDefinitionId) {
+          claimedPerkIds.add(perkDefinitionId);
         }
       });
-      
 
       setClaimedPerks(claimedPerkIds);
+      catalogCache.set('ownedObjects', snapshotId, Array.from(claimedPerkIds));
     } catch (error) {
-      // Failed to fetch claimed perks
-      setClaimedPerks(new Set());
-    }
-  };
-
-  // Helper function to decode u64 values (same as main frontend)
-  const decodeU64 = (bytesInput: Array<number> | Uint8Array | unknown): number => {
-    let bytes: Uint8Array;
-
-    // Convert standard array to Uint8Array if necessary
-    if (Array.isArray(bytesInput) && bytesInput.every(n => typeof n === 'number')) {
-      bytes = new Uint8Array(bytesInput);
-    } else if (bytesInput instanceof Uint8Array) {
-      bytes = bytesInput;
-    } else {
-      // Invalid input type for u64 decoding
-      return 0;
-    }
-
-    if (!bytes || bytes.length !== 8) {
-      // Invalid byte length for u64
-      return 0;
-    }
-    
-    try {
-      const dataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-      const valueBigInt = dataView.getBigUint64(0, true); // true for little-endian
-      
-      const valueNumber = Number(valueBigInt);
-      
-      if (valueBigInt > BigInt(Number.MAX_SAFE_INTEGER)) {
-        // Potential precision loss converting u64 value to JavaScript number
+      // Failed to fetch claimed perks - keep the snapshot if we had one
+      if (!snapshot) {
+        setClaimedPerks(new Set());
       }
-      
-      return valueNumber;
-    } catch (err) {
-      // Error decoding u64 value
-      return 0;
     }
   };
 
-  // Fetch user's Alpha Points balance from the blockchain
-  const fetchUserAlphaPoints = async () => {
-    if (!suiClient || !currentAccount?.address) {
-      setUserAlphaPoints(0);
-      return;
-    }
-
-    try {
-      // Fetching Alpha Points balance from blockchain
-      
-      // Use the simpler integration function
-      const { Transaction } = await import('@mysten/sui/transactions');
-      const txb = new Transaction();
-
-      // Try the integration module function
-      txb.moveCall({
-        target: `${SUI_CONFIG.packageIds.perkManager}::integration::get_user_points_balance`,
-        arguments: [
-          txb.object(SUI_CONFIG.sharedObjects.ledger),
-          txb.pure.address(currentAccount.address),
-        ],
-      });
-
-      const inspectResult = await suiClient.devInspectTransactionBlock({
-        sender: currentAccount.address,
-        transactionBlock: txb, 
+  // Show perks as owned before the claim confirms. Returns a rollback that
+  // un-marks the ones that weren't owned already.
+  const markPerksClaimed = useCallback((perkIds: string[]): (() => void) => {
+    let added: string[] = [];
+    setClaimedPerks(prev => {
+      added = perkIds.filter(id => !prev.has(id));
+      return added.length > 0 ? new Set([...prev, ...added]) : prev;
+    });
+    return () => {
+      setClaimedPerks(prev => {
+        const next = new Set(prev);
+        added.forEach(id => next.delete(id));
+        return next;
       });
-      
-      const status = inspectResult?.effects?.status?.status;
-      if (status !== 'success') {
-        const errorMsg = inspectResult?.effects?.status?.error || 'Unknown devInspect error';
-        // DevInspect execution failed
-        throw new Error(`Failed to fetch points: ${errorMsg}`);
-      }
-
-
-      
-      if (!inspectResult.results || inspectResult.results.length < 1) {
-        // DevInspect results missing or incomplete
-        throw new Error('Could not retrieve point balance: Invalid response structure.');
-      }
-      
-      const balanceResult = inspectResult.results[0];
-      if (balanceResult?.returnValues?.[0]) {
-        const [bytes, type] = balanceResult.returnValues[0];
-        if (type === 'u64' && Array.isArray(bytes)) {
-          const totalBalance = decodeU64(bytes);
-
-          setUserAlphaPoints(totalBalance);
-        } else {
-          throw new Error(`Unexpected format for balance. Expected type 'u64' and Array bytes.`);
-        }
-      } else {
-        throw new Error("Could not find balance return value.");
-      }
-      
-    } catch (error: any) {
-      // Failed to fetch user Alpha Points
-      setUserAlphaPoints(0);
-    }
-  };
-
-  // Load all data
-  const loadMarketplaceData = async () => {
-    setIsLoading(true);
+    };
+  }, []);
+
+  // Load all data - serve the cached catalog instantly (stale or not), then
+  // revalidate stale entries and discover new perks in the background
+  const loadMarketplaceData = async (force = false) => {
+    const loadId = ++loadIdRef.current;
+    const isCurrent = () => loadId === loadIdRef.current;
     setError(null);
+    requestedPartnerCapIds.current = new Set();
     
     try {
-      // Try cache first
-      const cachedPerks = getLocalStorageCache();
-      if (cachedPerks && cachedPerks.length > 0) {
-        // Using cached perks
-        // Apply brand filtering to cached perks
-        const filteredPerks = cachedPerks.filter(perk => shouldDisplayPerk(perk, BRAND_CONFIG));
-        setPerks(filteredPerks);
-        setIsLoading(false);
-        
-        // Load partner names in background for cached data
-        const uniquePartnerCapIds = [...new Set(filteredPerks.map(perk => perk.creator_partner_cap_id))];
-        fetchPartnerNames(uniquePartnerCapIds);
-        return;
-      }
-      
-      // Fetch fresh data
-      const allPerks = await fetchMarketplacePerks();
+      // Perks may have been created under any registered perk_manager version
+      const packageIds = getPerkManagerReadPackageIds();
+      const cachedByPackage = await Promise.all(
+        packageIds.map(packageId => catalogCache.getAll<PerkDefinition>('perk', packageId))
+      );
+      if (!isCurrent()) return;
       
       // Apply brand filtering
-      const filteredPerks = allPerks.filter(perk => shouldDisplayPerk(perk, BRAND_CONFIG));
-      setPerks(filteredPerks);
-      setLocalStorageCache(allPerks); // Cache all perks, filter on display
+      const cachedPerks = cachedByPackage.flat()
+        .map(entry => entry.value)
+        .filter(perk => shouldDisplayPerk(perk, BRAND_CONFIG));
+      setPerks(cachedPerks);
+      setIsLoading(cachedPerks.length === 0);
+      setIsLoadingMore(true);
       
-      // Load partner names
-      if (filteredPerks.length > 0) {
-        const uniquePartnerCapIds = [...new Set(filteredPerks.map(perk => perk.creator_partner_cap_id))];
+      if (cachedPerks.length > 0) {
+        const uniquePartnerCapIds = [...new Set(cachedPerks.map(perk => perk.creator_partner_cap_id))];
+        uniquePartnerCapIds.forEach(id => requestedPartnerCapIds.current.add(id));
         fetchPartnerNames(uniquePartnerCapIds);
       }
       
+      const revalidate = async (packageId: string, perkIds: string[]) => {
+        if (perkIds.length === 0) return;
+        const updates = await fetchPerkUpdates(perkIds);
+        if (!isCurrent()) return;
+        applyPerkUpdates(packageId, updates);
+        setIsLoading(false);
+      };
+      
+      for (const [i, packageId] of packageIds.entries()) {
+        try {
+          const index = getDiscoveryIndex(packageId);
+          const freshIds = new Set(
+            (cachedByPackage[i] ?? []).filter(entry => !entry.isStale).map(entry => entry.id)
+          );
+          
+          // Perks discovered on earlier visits - only refetch expired entries
+          await revalidate(packageId, force ? index.perkIds : index.perkIds.filter(id => !freshIds.has(id)));
+          
+          // Perks created since the last seen cursor
+          await discoverNewPerkIds(packageId, index, pageIds => revalidate(packageId, pageIds));
+        } catch {
+          // Failed to query package - continue with next
+        }
+        if (!isCurrent()) return;
+      }
+      
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load perks';
       setError(errorMessage);
       toast.error('Failed to load marketplace perks');
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
     }
   };
 
-  // Refresh data
+  // Refresh data - revalidate everything while the current catalog stays visible
   const refresh = async () => {
-    // Clear cache
-    localStorage.removeItem(CACHE_KEY);
-    localStorage.removeItem(CACHE_EXPIRY_KEY);
-    
-    await loadMarketplaceData();
+    await catalogCache.invalidate('partnerName');
+    await loadMarketplaceData(true);
     await fetchClaimedPerks();
-    await fetchUserAlphaPoints();
+    await invalidateAlphaPoints(currentAccount?.address);
     
     toast.success('Marketplace refreshed!');
   };
 
-  // Initial load
+  // Initial load - the client changes when the network is switched, so start
+  // from that network's cache rather than the previous network's perks
   useEffect(() => {
+    clearLegacyCache();
+    setPartnerNames(new Map());
     loadMarketplaceData();
   }, [suiClient]);
 
   // Load user-specific data when account changes
   useEffect(() => {
     fetchClaimedPerks();
-    fetchUserAlphaPoints();
   }, [currentAccount?.address, suiClient]);
 
-  // Auto-refresh balance every 30 seconds
+  // Poll for live perk updates while the page is visible. The interval calls
+  // through a ref so it always sees the current account.
+  const pollPerkEventsRef = useRef(pollPerkEvents);
+  pollPerkEventsRef.current = pollPerkEvents;
+
   useEffect(() => {
-    if (!currentAccount?.address) return;
+    liveCursors.current = new Map();
+    pollPerkEventsRef.current();
 
     const interval = setInterval(() => {
-      fetchUserAlphaPoints();
-    }, 30000); // 30 seconds
-
-    return () => clearInterval(interval);
-  }, [currentAccount?.address, suiClient]);
+      if (document.visibilityState === 'visible') {
+        pollPerkEventsRef.current();
+      }
+    }, LIVE_UPDATE_INTERVAL_MS);
+
+    const timers = highlightTimers.current;
+    return () => {
+      clearInterval(interval);
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [suiClient]);
 
   // Apply brand configuration sorting
   const sortedPerks = useMemo(() => {
@@ -498,9 +548,9 @@ export const usePerkMarketplace = () => {
         case 'date':
           return b.last_price_update_timestamp_ms - a.last_price_update_timestamp_ms;
         case 'price-low':
-          return a.current_alpha_points_price - b.current_alpha_points_price;
+          return comparePoints(a.current_alpha_points_price, b.current_alpha_points_price);
         case 'price-high':
-          return b.current_alpha_points_price - a.current_alpha_points_price;
+          return comparePoints(b.current_alpha_points_price, a.current_alpha_points_price);
         case 'claims':
           return b.total_claims_count - a.total_claims_count;
         default:
@@ -516,8 +566,12 @@ export const usePerkMarketplace = () => {
     partnerNames,
     claimedPerks,
     userAlphaPoints,
+    isLoadingMore,
+    updatedPerkIds,
     refresh,
+    markPerksClaimed,
     hasPerkClaimed: (perkId: string) => claimedPerks.has(perkId),
-    canAffordPerk: (perk: PerkDefinition) => userAlphaPoints >= perk.current_alpha_points_price,
+    isPerkUpdated: (perkId: string) => updatedPerkIds.has(perkId),
+    canAffordPerk: (perk: PerkDefinition) => canAffordPoints(userAlphaPoints, perk.current_alpha_points_price),
   };
 }; 
\ No newline at end of file
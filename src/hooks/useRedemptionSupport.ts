@@ -0,0 +1,29 @@
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useQuery } from '@tanstack/react-query';
+import type { SuiClient } from '@mysten/sui/client';
+import { SUI_CONFIG, getPerkManagerTransactionPackageId } from '../config/sui';
+import { checkRedemptionSupport } from '../services/redemptionSupport';
+
+/**
+ * Query options for whether the active package supports redemption. A
+ * package's ABI doesn't change, so the answer is kept for the session.
+ */
+export const redemptionSupportQuery = (client: SuiClient) => ({
+  queryKey: ['redemptionSupport', SUI_CONFIG.network, getPerkManagerTransactionPackageId()] as const,
+  queryFn: () => checkRedemptionSupport(client),
+  staleTime: Infinity,
+});
+
+/**
+ * Whether perks can be redeemed on-chain here. `support` is null until
+ * checked.
+ */
+export const useRedemptionSupport = () => {
+  const client = useSuiClient();
+  const query = useQuery(redemptionSupportQuery(client));
+
+  return {
+    support: query.data ?? null,
+    error: query.error ? query.error.message || 'Could not check redemption support' : null,
+  };
+};
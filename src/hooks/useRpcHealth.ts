@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getRpcTransport } from '../services/rpcTransport';
+import type { EndpointHealth } from '../services/rpcTransport';
+import { useActiveNetwork } from './useNetwork';
+
+/**
+ * Live health of every RPC endpoint configured for the active network
+ */
+export const useRpcHealth = (): EndpointHealth[] => {
+  const [network] = useActiveNetwork();
+  const transport = getRpcTransport(network);
+
+  const subscribe = useCallback((onChange: () => void) => transport.onHealthChange(onChange), [transport]);
+  const getSnapshot = useCallback(() => transport.getHealth(), [transport]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
@@ -0,0 +1,154 @@
+import { createElement, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { SuiClient, TransactionEffects } from '@mysten/sui/client';
+import { isPerkManagerType } from '../config/sui';
+import { getObjectLoader } from '../services/objectLoader';
+import { getClaimedPerkDefinitionId } from '../services/ownedObjects';
+import { decodeTransactionError } from '../utils/moveErrors';
+import { TransactionToast } from '../components/TransactionToast';
+import type { TransactionToastProps } from '../components/TransactionToast';
+import { useAlphaPointsUpdater } from './useAlphaPoints';
+import { claimHistoryQueryKey } from './useClaimHistory';
+import type { PointsAmount } from '../types/index';
+
+export interface TrackedTransaction {
+  label: string; // What the transaction does, for the status toast
+  execute: () => Promise<{ digest: string }>; // Signs and submits the transaction
+  onSubmitted?: (digest: string) => void; // Runs once submitted, before confirmation
+  applyOptimistic?: () => () => void; // Updates shown before confirmation; returns a rollback
+  commandLabels?: string[]; // Names failures by command, e.g. cart items
+  successMessage?: string;
+}
+
+export interface TrackedTransactionResult {
+  digest: string;
+  effects: TransactionEffects;
+}
+
+export interface TrackedClaim {
+  address: string;
+  label: string; // What is being claimed, for the status toast
+  points: PointsAmount; // Deducted from the balance right away
+  perkIds: string[]; // Marked as owned right away
+  commandLabels?: string[];
+  execute: () => Promise<{ digest: string }>;
+  onSubmitted?: (digest: string) => void; // Runs once submitted, even if confirmation fails
+  markOwned: (perkIds: string[]) => () => void; // Optimistic ownership; returns a rollback
+}
+
+export interface ClaimOutcome {
+  digest: string;
+  claimedPerks: { objectId: string; perkDefinitionId: string }[]; // Created ClaimedPerk objects
+}
+
+// Show or update the one toast that follows a transaction
+const showTransactionToast = (props: TransactionToastProps, id?: string): string => {
+  const content = createElement(TransactionToast, props);
+  switch (props.status) {
+    case 'signing':
+    case 'confirming':
+      return toast.loading(content, { id });
+    case 'success':
+      return toast.success(content, { id, duration: 6000 });
+    case 'error':
+      return toast.error(content, { id, duration: 8000 });
+  }
+};
+
+/**
+ * ClaimedPerk objects a transaction created, read from its effects
+ */
+const getCreatedClaimedPerks = async (client: SuiClient, effects: TransactionEffects): Promise<ClaimOutcome['claimedPerks']> => {
+  const createdIds = (effects.created ?? []).map(created => created.reference.objectId);
+  const loader = getObjectLoader(client);
+  const objects = await Promise.all(createdIds.map(id => loader.load(id).catch(() => null)));
+
+  return objects.flatMap(object => {
+    const objectId = object?.data?.objectId;
+    const perkDefinitionId = object ? getClaimedPerkDefinitionId(object) : null;
+    return objectId && perkDefinitionId && isPerkManagerType(object?.data?.type ?? undefined, 'ClaimedPerk')
+      ? [{ objectId, perkDefinitionId }]
+      : [];
+  });
+};
+
+/**
+ * Tracks transactions from the wallet prompt to on-chain confirmation.
+ * Optimistic updates apply as soon as one starts and roll back if it
+ * fails, and one toast follows each transaction.
+ */
+export const useTransactionTracker = () => {
+  const client = useSuiClient();
+  const queryClient = useQueryClient();
+  const { deduct, invalidate } = useAlphaPointsUpdater();
+
+  // Resolves with the effects once the transaction is confirmed, or null if
+  // it failed or couldn't be confirmed
+  const trackTransaction = useCallback(async (tracked: TrackedTransaction): Promise<TrackedTransactionResult | null> => {
+    const toastId = showTransactionToast({ status: 'signing', message: `Confirm ${tracked.label} in your wallet` });
+    const rollback = tracked.applyOptimistic?.() ?? (() => {});
+
+    let digest: string | undefined;
+    try {
+      ({ digest } = await tracked.execute());
+      showTransactionToast({ status: 'confirming', message: `Confirming ${tracked.label}...`, digest }, toastId);
+      tracked.onSubmitted?.(digest);
+
+      let effects: TransactionEffects | null | undefined;
+      try {
+        ({ effects } = await client.waitForTransaction({ digest, options: { showEffects: true } }));
+      } catch {
+        // Submitted but not seen yet - it may still land, so keep the
+        // optimistic state and let the next fetch settle it
+        showTransactionToast({ status: 'error', message: `Couldn't confirm ${tracked.label} yet - check the explorer`, digest }, toastId);
+        return null;
+      }
+      if (!effects) {
+        throw new Error('Transaction effects unavailable');
+      }
+      if (effects.status.status !== 'success') {
+        throw decodeTransactionError(effects.status.error || 'Transaction failed');
+      }
+
+      showTransactionToast({ status: 'success', message: tracked.successMessage ?? `Confirmed ${tracked.label}`, digest }, toastId);
+      return { digest, effects };
+    } catch (error) {
+      rollback();
+      const decoded = decodeTransactionError(error);
+      const failedCommand = decoded.abort?.commandIndex !== undefined ? tracked.commandLabels?.[decoded.abort.commandIndex] : undefined;
+      showTransactionToast({ status: 'error', message: `${failedCommand ? `${failedCommand}: ` : ''}${decoded.message}`, digest }, toastId);
+      return null;
+    }
+  }, [client]);
+
+  // Claim perks, deducting the points and marking them owned right away.
+  // Resolves with the outcome once confirmed, or null if it failed.
+  const trackClaim = useCallback(async (claim: TrackedClaim): Promise<ClaimOutcome | null> => {
+    const result = await trackTransaction({
+      label: claim.label,
+      execute: claim.execute,
+      onSubmitted: claim.onSubmitted,
+      commandLabels: claim.commandLabels,
+      successMessage: `Claimed ${claim.label}`,
+      applyOptimistic: () => {
+        const rollbackBalance = deduct(claim.address, claim.points);
+        const rollbackOwnership = claim.markOwned(claim.perkIds);
+        return () => {
+          rollbackBalance();
+          rollbackOwnership();
+        };
+      },
+    });
+
+    // Settles the optimistic balance whether or not the claim went through
+    void invalidate(claim.address);
+    if (!result) return null;
+
+    void queryClient.invalidateQueries({ queryKey: claimHistoryQueryKey(claim.address) });
+    return { digest: result.digest, claimedPerks: await getCreatedClaimedPerks(client, result.effects) };
+  }, [client, queryClient, trackTransaction, deduct, invalidate]);
+
+  return { trackTransaction, trackClaim };
+};
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useQuery } from '@tanstack/react-query';
+import { SUI_CONFIG } from '../config/sui';
+import { fetchOracleRate } from '../services/oracle';
+import { DEFAULT_POINTS_PER_USD, alphaPointsToUSD } from '../utils/format';
+import type { PointsAmount } from '../types/index';
+
+const RATE_TTL_MS = 5 * 60 * 1000; // Refetch the oracle every 5 minutes
+const RATE_STALE_AFTER_MS = 60 * 60 * 1000; // Oracle not updated for an hour
+
+/**
+ * Query key for the oracle rate, scoped to network and oracle object
+ */
+export const usdRateQueryKey = () =>
+  ['usdRate', SUI_CONFIG.network, SUI_CONFIG.sharedObjects.oracle] as const;
+
+/**
+ * Alpha Points to USD conversion from the on-chain oracle. Every caller
+ * shares one query, cached for RATE_TTL_MS. Until it loads (or if it
+ * fails) the default rate is used and `isFallback` is set.
+ */
+export const useUsdRate = () => {
+  const client = useSuiClient();
+
+  const query = useQuery({
+    queryKey: usdRateQueryKey(),
+    queryFn: () => fetchOracleRate(client, SUI_CONFIG.sharedObjects.oracle),
+    staleTime: RATE_TTL_MS,
+    refetchInterval: RATE_TTL_MS,
+  });
+
+  const pointsPerUsd = query.data?.pointsPerUsd ?? DEFAULT_POINTS_PER_USD;
+  const updatedAt = query.data?.updatedAtMs ?? null;
+  const isFallback = !query.data;
+  const isStale = isFallback || updatedAt === null || Date.now() - updatedAt > RATE_STALE_AFTER_MS;
+
+  // USD value of an amount of points at the current rate, e.g. "12.50"
+  const toUsd = useCallback(
+    (points: PointsAmount | number) => alphaPointsToUSD(points, pointsPerUsd),
+    [pointsPerUsd]
+  );
+
+  return {
+    pointsPerUsd,
+    updatedAt,
+    isStale,
+    isFallback,
+    loading: query.isPending,
+    error: query.error ? query.error.message : null,
+    toUsd,
+  };
+};
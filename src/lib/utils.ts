@@ -14,7 +14,7 @@ export function formatUSDC(amount: number): string {
   }).format(amount);
 }
 
-export function formatAlphaPoints(amount: number): string {
+export function formatAlphaPoints(amount: number | bigint): string {
   return new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
@@ -1,42 +1,11 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit'
-import { getFullnodeUrl } from '@mysten/sui/client'
-import { createNetworkConfig } from '@mysten/dapp-kit'
 import App from './App.tsx'
 import './index.css'
-import '@mysten/dapp-kit/dist/index.css'
-
-// Create query client
-const queryClient = new QueryClient()
-
-// Create network config
-const { networkConfig } = createNetworkConfig({
-  testnet: { url: getFullnodeUrl('testnet') },
-  mainnet: { url: getFullnodeUrl('mainnet') },
-  devnet: { url: getFullnodeUrl('devnet') },
-})
 
+// Providers (query client, Sui network, wallet) live in App
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <SuiClientProvider 
-        networks={networkConfig} 
-        defaultNetwork="testnet"
-        onError={(error) => {
-          // Silent error handling - errors will be shown in UI components
-        }}
-      >
-        <WalletProvider
-          autoConnect
-          onError={(error) => {
-            // Silent error handling - errors will be shown in UI components
-          }}
-        >
-          <App />
-        </WalletProvider>
-      </SuiClientProvider>
-    </QueryClientProvider>
+    <App />
   </React.StrictMode>,
 )
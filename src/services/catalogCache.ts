@@ -0,0 +1,243 @@
+import { SUI_CONFIG, getPerkManagerTransactionPackageId } from '../config/sui';
+
+const DB_NAME = 'perk-store-cache';
+const DB_VERSION = 2; // v2: Alpha Points prices are stored as bigint
+const STORE_NAME = 'entries';
+const SCOPE_KIND_INDEX = 'scope_kind';
+
+export type CatalogCacheKind = 'perk' | 'partnerName' | 'ownedObjects';
+
+// Default time-to-live per kind of entry
+export const CATALOG_CACHE_TTL_MS: Record<CatalogCacheKind, number> = {
+  perk: 15 * 60 * 1000, // 15 minutes
+  partnerName: 24 * 60 * 60 * 1000, // 24 hours - partner names rarely change
+  ownedObjects: 60 * 1000, // 60 seconds
+};
+
+export interface CatalogCacheEntry<T> {
+  id: string;
+  value: T;
+  storedAt: number;
+  isStale: boolean; // Past its TTL - still usable while revalidating
+}
+
+interface StoredEntry {
+  key: string;
+  scope: string; // `${network}:${packageId}`
+  kind: CatalogCacheKind;
+  id: string;
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface CacheWriteOptions {
+  packageId?: string;
+  ttlMs?: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Persistent cache for catalog data, backed by IndexedDB.
+ *
+ * Entries are keyed by network, package, kind and ID, and each carries its
+ * own TTL. Expired entries are still returned (flagged isStale) so callers
+ * can render them immediately and revalidate in the background. Falls back
+ * to memory when IndexedDB is unavailable (private browsing, SSR).
+ */
+export class CatalogCache {
+  private network?: string;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, StoredEntry>();
+
+  // Without a network, entries follow whichever network is active
+  constructor(network?: string) {
+    this.network = network;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            // Cached entries are cheap to refetch - start over on any schema change
+            if (request.result.objectStoreNames.contains(STORE_NAME)) {
+              request.result.deleteObjectStore(STORE_NAME);
+            }
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex(SCOPE_KIND_INDEX, ['scope', 'kind']);
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => resolve(null);
+          request.onblocked = () => resolve(null);
+        } catch {
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private scope(packageId = getPerkManagerTransactionPackageId()): string {
+    return `${this.network ?? SUI_CONFIG.network}:${packageId}`;
+  }
+
+  private key(scope: string, kind: CatalogCacheKind, id: string): string {
+    return `${scope}:${kind}:${id}`;
+  }
+
+  private toEntry<T>(stored: StoredEntry): CatalogCacheEntry<T> {
+    return {
+      id: stored.id,
+      value: stored.value as T,
+      storedAt: stored.storedAt,
+      isStale: Date.now() >= stored.expiresAt,
+    };
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    try {
+      return await run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    } catch {
+      // IndexedDB failure (quota, closed connection) - fall back to memory
+      return undefined;
+    }
+  }
+
+  /**
+   * Read a single entry, stale or fresh
+   */
+  async get<T>(kind: CatalogCacheKind, id: string, packageId?: string): Promise<CatalogCacheEntry<T> | null> {
+    const key = this.key(this.scope(packageId), kind, id);
+    const stored = await this.withStore('readonly', store =>
+      requestToPromise(store.get(key) as IDBRequest<StoredEntry | undefined>)
+    ) ?? this.memory.get(key);
+
+    return stored ? this.toEntry<T>(stored) : null;
+  }
+
+  /**
+   * Read every entry of a kind for one package
+   */
+  async getAll<T>(kind: CatalogCacheKind, packageId?: string): Promise<CatalogCacheEntry<T>[]> {
+    const scope = this.scope(packageId);
+    const stored = await this.withStore('readonly', store =>
+      requestToPromise(store.index(SCOPE_KIND_INDEX).getAll([scope, kind]) as IDBRequest<StoredEntry[]>)
+    ) ?? Array.from(this.memory.values()).filter(entry => entry.scope === scope && entry.kind === kind);
+
+    return stored.map(entry => this.toEntry<T>(entry));
+  }
+
+  /**
+   * Write several entries of one kind in a single transaction
+   */
+  async setMany<T>(kind: CatalogCacheKind, values: Map<string, T>, options: CacheWriteOptions = {}): Promise<void> {
+    if (values.size === 0) return;
+
+    const scope = this.scope(options.packageId);
+    const storedAt = Date.now();
+    const expiresAt = storedAt + (options.ttlMs ?? CATALOG_CACHE_TTL_MS[kind]);
+
+    const entries: StoredEntry[] = Array.from(values.entries()).map(([id, value]) => ({
+      key: this.key(scope, kind, id),
+      scope,
+      kind,
+      id,
+      value,
+      storedAt,
+      expiresAt,
+    }));
+
+    const written = await this.withStore('readwrite', async store => {
+      await Promise.all(entries.map(entry => requestToPromise(store.put(entry))));
+      return true;
+    });
+
+    if (!written) {
+      entries.forEach(entry => this.memory.set(entry.key, entry));
+    }
+  }
+
+  /**
+   * Write a single entry
+   */
+  async set<T>(kind: CatalogCacheKind, id: string, value: T, options: CacheWriteOptions = {}): Promise<void> {
+    await this.setMany(kind, new Map([[id, value]]), options);
+  }
+
+  /**
+   * Remove entries, e.g. perks that were deactivated on-chain
+   */
+  async delete(kind: CatalogCacheKind, ids: string[], packageId?: string): Promise<void> {
+    if (ids.length === 0) return;
+
+    const keys = ids.map(id => this.key(this.scope(packageId), kind, id));
+    keys.forEach(key => this.memory.delete(key));
+    await this.withStore('readwrite', store =>
+      Promise.all(keys.map(key => requestToPromise(store.delete(key))))
+    );
+  }
+
+  /**
+   * Mark every entry of a kind as stale without discarding it, so the next
+   * read still renders instantly but triggers a revalidation
+   */
+  async invalidate(kind: CatalogCacheKind, packageId?: string): Promise<void> {
+    const scope = this.scope(packageId);
+
+    this.memory.forEach(entry => {
+      if (entry.scope === scope && entry.kind === kind) entry.expiresAt = 0;
+    });
+    await this.withStore('readwrite', async store => {
+      const entries = await requestToPromise(
+        store.index(SCOPE_KIND_INDEX).getAll([scope, kind]) as IDBRequest<StoredEntry[]>
+      );
+      await Promise.all(entries.map(entry => requestToPromise(store.put({ ...entry, expiresAt: 0 }))));
+    });
+  }
+
+  /**
+   * Return a fresh entry if there is one, otherwise fetch and store. A stale
+   * entry is returned when the fetch fails.
+   */
+  async getOrFetch<T>(
+    kind: CatalogCacheKind,
+    id: string,
+    fetchFn: () => Promise<T>,
+    options: CacheWriteOptions = {}
+  ): Promise<T> {
+    const cached = await this.get<T>(kind, id, options.packageId);
+    if (cached && !cached.isStale) {
+      return cached.value;
+    }
+
+    try {
+      const value = await fetchFn();
+      await this.set(kind, id, value, options);
+      return value;
+    } catch (error) {
+      if (cached) return cached.value;
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const catalogCache = new CatalogCache();
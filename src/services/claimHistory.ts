@@ -0,0 +1,137 @@
+import type { SuiClient, SuiEvent } from '@mysten/sui/client';
+import { isPerkManagerType } from '../config/sui';
+import { catalogCache } from './catalogCache';
+import { getObjectLoader } from './objectLoader';
+import { parsePerkDefinition } from '../utils/perkDefinition';
+import { toPointsAmount } from '../utils/points';
+import type { PointsAmount } from '../types/index';
+
+export type HistoryEntryKind = 'claim' | 'redemption';
+
+export interface HistoryEntry {
+  kind: HistoryEntryKind;
+  digest: string;
+  eventSeq: string;
+  timestampMs: number | null;
+  perkDefinitionId: string | null;
+  claimedPerkId: string | null;
+  perkName: string;
+  partnerName: string;
+  pointsSpent: PointsAmount; // 0 for redemptions
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}
+
+// perk_manager events that make up a user's history
+const HISTORY_EVENTS: Record<string, HistoryEntryKind> = {
+  PerkClaimed: 'claim',
+  PerkConsumed: 'redemption',
+};
+
+const HISTORY_PAGE_SIZE = 25;
+const UNKNOWN_PERK = 'Unknown Perk';
+const UNKNOWN_PARTNER = 'Unknown Partner';
+
+const readString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const historyKind = (event: SuiEvent): HistoryEntryKind | null => {
+  const name = event.type.split('::').pop() ?? '';
+  const kind = HISTORY_EVENTS[name];
+  return kind && isPerkManagerType(event.type, name) ? kind : null;
+};
+
+// Perk name and partner cap for each definition. Retired perks still load,
+// since only the marketplace hides inactive definitions.
+const loadPerkDetails = async (client: SuiClient, perkIds: string[]) => {
+  const loader = getObjectLoader(client);
+  const details = new Map<string, { name: string; partnerCapId: string }>();
+  await Promise.all(perkIds.map(async id => {
+    try {
+      const parsed = parsePerkDefinition(await loader.load(id));
+      if (parsed.ok) details.set(id, { name: parsed.perk.name, partnerCapId: parsed.perk.creatorPartnerCapId });
+    } catch {
+      // Deleted or unreadable - shown as an unknown perk
+    }
+  }));
+  return details;
+};
+
+const loadPartnerNames = async (client: SuiClient, partnerCapIds: string[]) => {
+  const loader = getObjectLoader(client);
+  const names = new Map<string, string>();
+  await Promise.all(partnerCapIds.map(async id => {
+    const cached = await catalogCache.get<string>('partnerName', id);
+    if (cached) {
+      names.set(id, cached.value);
+      return;
+    }
+    try {
+      const content = (await loader.load(id)).data?.content;
+      const name = content?.dataType === 'moveObject' ? readString((content.fields as Record<string, unknown>).partner_name) : null;
+      if (name) {
+        names.set(id, name);
+        catalogCache.set('partnerName', id, name);
+      }
+    } catch {
+      // Shown as an unknown partner
+    }
+  }));
+  return names;
+};
+
+/**
+ * One page of an address's claim and redemption history, newest first,
+ * read from the perk_manager events of the transactions it sent
+ */
+export const fetchHistoryPage = async (
+  client: SuiClient,
+  address: string,
+  cursor: string | null = null
+): Promise<HistoryPage> => {
+  const page = await client.queryTransactionBlocks({
+    filter: { FromAddress: address },
+    options: { showEvents: true },
+    cursor,
+    limit: HISTORY_PAGE_SIZE,
+    order: 'descending',
+  });
+
+  const events = page.data.flatMap(transaction =>
+    (transaction.events ?? []).flatMap(event => {
+      const kind = historyKind(event);
+      return kind ? [{ kind, event, timestampMs: transaction.timestampMs ?? event.timestampMs ?? null }] : [];
+    })
+  );
+
+  const fieldsOf = (event: SuiEvent) => (event.parsedJson ?? {}) as Record<string, unknown>;
+  const perkIds = [...new Set(events.map(({ event }) => readString(fieldsOf(event).perk_definition_id)).filter((id): id is string => !!id))];
+  const perkDetails = await loadPerkDetails(client, perkIds);
+  const partnerNames = await loadPartnerNames(client, [...new Set(Array.from(perkDetails.values(), perk => perk.partnerCapId))]);
+
+  const entries = events.map(({ kind, event, timestampMs }): HistoryEntry => {
+    const fields = fieldsOf(event);
+    const perkDefinitionId = readString(fields.perk_definition_id);
+    const perk = perkDefinitionId ? perkDetails.get(perkDefinitionId) : undefined;
+    return {
+      kind,
+      digest: event.id.txDigest,
+      eventSeq: event.id.eventSeq,
+      timestampMs: timestampMs === null ? null : Number(timestampMs),
+      perkDefinitionId,
+      claimedPerkId: readString(fields.claimed_perk_id),
+      perkName: perk?.name ?? UNKNOWN_PERK,
+      partnerName: (perk && partnerNames.get(perk.partnerCapId)) ?? UNKNOWN_PARTNER,
+      pointsSpent: kind === 'claim' ? toPointsAmount(fields.alpha_points_spent) : 0n,
+    };
+  });
+
+  return {
+    entries,
+    nextCursor: page.hasNextPage ? page.nextCursor ?? null : null,
+    hasNextPage: page.hasNextPage,
+  };
+};
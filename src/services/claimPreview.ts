@@ -0,0 +1,118 @@
+import type { SuiClient, GasCostSummary, SuiEvent } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import type { PointsAmount } from '../types/index';
+import { pointsShortfall, toPointsAmount } from '../utils/points';
+import { decodeTransactionError } from '../utils/moveErrors';
+import type { TransactionError } from '../utils/moveErrors';
+
+export interface ClaimPreview {
+  willSucceed: boolean;
+  pointsToDeduct: PointsAmount;
+  gasEstimateMist: bigint; // Net gas cost (computation + storage - rebate)
+  resultingBalance: PointsAmount;
+  failureReason: string | null;
+  failure: TransactionError | null;
+}
+
+export interface CartPreview extends ClaimPreview {
+  failedItemIndex: number | null; // Cart item whose claim aborted, when one did
+}
+
+const netGasCost = (gasUsed: GasCostSummary): bigint => {
+  const cost = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+  return cost > 0n ? cost : 0n;
+};
+
+// Points the claims actually spend, from their PerkClaimed events
+const spentFromEvents = (events: SuiEvent[] | undefined): PointsAmount | undefined => {
+  const claimed = events?.filter(event => event.type.endsWith('::perk_manager::PerkClaimed')) ?? [];
+  if (claimed.length === 0) return undefined;
+  return claimed.reduce(
+    (total, event) => total + toPointsAmount((event.parsedJson as Record<string, unknown> | undefined)?.alpha_points_spent),
+    0n
+  );
+};
+
+const ZERO_GAS: GasCostSummary = {
+  computationCost: '0',
+  storageCost: '0',
+  storageRebate: '0',
+  nonRefundableStorageFee: '0',
+};
+
+interface SimulationResult {
+  error?: string; // Why execution would fail
+  gasUsed: GasCostSummary;
+  events?: SuiEvent[];
+}
+
+// Dry runs need gas coins, so when the transaction can't be built (usually
+// no SUI for gas) it is dev-inspected instead and reported as failing on gas
+const simulate = async (client: SuiClient, transaction: Transaction, sender: string): Promise<SimulationResult> => {
+  let transactionBytes: Uint8Array;
+  try {
+    transactionBytes = await transaction.build({ client });
+  } catch (buildError) {
+    const message = buildError instanceof Error ? buildError.message : String(buildError);
+    try {
+      const { effects, events } = await client.devInspectTransactionBlock({ sender, transactionBlock: transaction });
+      // A Move abort explains the failure better than the gas error it causes
+      return { error: effects.status.error || message, gasUsed: effects.gasUsed, events };
+    } catch {
+      return { error: message, gasUsed: ZERO_GAS };
+    }
+  }
+
+  const { effects, events } = await client.dryRunTransactionBlock({ transactionBlock: transactionBytes });
+  return {
+    error: effects.status.status === 'success' ? undefined : effects.status.error || 'Unknown error',
+    gasUsed: effects.gasUsed,
+    events,
+  };
+};
+
+/**
+ * Simulate a claim transaction without signing it, predicting the points
+ * spent, gas cost, resulting balance and any failure
+ */
+export const previewClaimTransaction = async (
+  client: SuiClient,
+  transaction: Transaction,
+  { sender, price, balance }: { sender: string; price: PointsAmount; balance: PointsAmount }
+): Promise<ClaimPreview> => {
+  transaction.setSender(sender);
+  const { error, gasUsed, events } = await simulate(client, transaction, sender);
+
+  const pointsToDeduct = spentFromEvents(events) ?? price;
+  const shortfall = pointsShortfall(balance, pointsToDeduct);
+  const failureError = error ?? (shortfall > 0n ? 'Insufficient balance' : undefined);
+  const failure = failureError ? decodeTransactionError(failureError) : null;
+
+  return {
+    willSucceed: !failure,
+    pointsToDeduct,
+    gasEstimateMist: netGasCost(gasUsed),
+    resultingBalance: shortfall > 0n ? 0n : balance - pointsToDeduct,
+    failureReason: failure?.message ?? null,
+    failure,
+  };
+};
+
+/**
+ * Simulate a cart checkout built with buildClaimPerksTransaction. Like
+ * previewClaimTransaction, plus which item made it fail - the transaction
+ * has one command per item, so the aborting command is the item's index.
+ */
+export const previewCartTransaction = async (
+  client: SuiClient,
+  transaction: Transaction,
+  { sender, prices, balance }: { sender: string; prices: PointsAmount[]; balance: PointsAmount }
+): Promise<CartPreview> => {
+  const price = prices.reduce((total, itemPrice) => total + itemPrice, 0n);
+  const preview = await previewClaimTransaction(client, transaction, { sender, price, balance });
+  const commandIndex = preview.failure?.abort?.commandIndex;
+  return {
+    ...preview,
+    failedItemIndex: commandIndex !== undefined && commandIndex < prices.length ? commandIndex : null,
+  };
+};
@@ -0,0 +1,763 @@
+import { JsonRpcError, SuiClient } from '@mysten/sui/client';
+import type {
+  DevInspectResults,
+  DryRunTransactionBlockResponse,
+  EventId,
+  ExecutionStatus,
+  ObjectOwner,
+  SuiEvent,
+  SuiEventFilter,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedStruct,
+  SuiMoveNormalizedType,
+  SuiObjectDataFilter,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+  SuiTransport,
+  SuiTransportRequestOptions,
+  TransactionEffects,
+  TransactionFilter,
+} from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import { TransactionDataBuilder } from '@mysten/sui/transactions';
+import type { CallArg, Command } from '@mysten/sui/transactions';
+import { fromBase64, normalizeSuiAddress, toBase58 } from '@mysten/sui/utils';
+import {
+  DEMO_IDS,
+  DEMO_PARTNERS,
+  DEMO_PERKS,
+  DEMO_STARTING_POINTS,
+} from '../config/demo';
+import { encodeU64 } from '../utils/codec';
+import { PERK_MANAGER_ABORT_CODES } from '../utils/moveErrors';
+
+const PACKAGE = DEMO_IDS.package;
+const CLOCK_ID = normalizeSuiAddress('0x6');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GAS_PRICE = '1000';
+const GAS_COIN_BALANCE = '10000000000'; // 10 SUI
+const DEFAULT_PAGE_SIZE = 50;
+
+// Abort codes raised by the demo perk_manager - reported in the same
+// MoveAbort format a fullnode uses so error handling can be exercised
+export const DEMO_ABORT_CODES = {
+  perkInactive: PERK_MANAGER_ABORT_CODES.EPerkNotActive,
+  perkExpired: PERK_MANAGER_ABORT_CODES.EPerkExpired,
+  maxClaimsReached: PERK_MANAGER_ABORT_CODES.EMaxClaimsReached,
+  insufficientPoints: PERK_MANAGER_ABORT_CODES.EInsufficientPoints,
+  noUsesRemaining: PERK_MANAGER_ABORT_CODES.ENoUsesRemaining,
+  notOwner: PERK_MANAGER_ABORT_CODES.ENotOwner,
+} as const;
+
+interface DemoObject {
+  objectId: string;
+  type: string;
+  version: number;
+  digest: string;
+  owner: ObjectOwner;
+  previousTransaction: string;
+  fields: Record<string, unknown>;
+}
+
+interface PendingClaim {
+  perk: DemoObject;
+  price: bigint;
+  metadata?: { key: string; value: string };
+}
+
+interface PendingTransaction {
+  claims: PendingClaim[];
+  consumed: DemoObject[]; // ClaimedPerks used once each
+}
+
+class DemoAbort extends Error {
+  constructor(readonly code: number, readonly functionName: string, readonly commandIndex: number) {
+    super(`MoveAbort(MoveLocation { module: ModuleId { address: ${PACKAGE.slice(2)}, name: Identifier("perk_manager") }, function: 0, instruction: 0, function_name: Some("${functionName}") }, ${code}) in command ${commandIndex}`);
+  }
+}
+
+// Normalized signatures for every Move function the app calls, so the SDK
+// can resolve object arguments while building transactions
+const struct = (address: string, module: string, name: string): SuiMoveNormalizedType => ({
+  Struct: { address, module, name, typeArguments: [] },
+});
+const CONFIG_REF: SuiMoveNormalizedType = { Reference: struct(PACKAGE, 'admin', 'Config') };
+const LEDGER_REF: SuiMoveNormalizedType = { Reference: struct(PACKAGE, 'ledger', 'Ledger') };
+const LEDGER_MUT: SuiMoveNormalizedType = { MutableReference: struct(PACKAGE, 'ledger', 'Ledger') };
+const PERK_MUT: SuiMoveNormalizedType = { MutableReference: struct(PACKAGE, 'perk_manager', 'PerkDefinition') };
+const CLAIMED_PERK_MUT: SuiMoveNormalizedType = { MutableReference: struct(PACKAGE, 'perk_manager', 'ClaimedPerk') };
+const CLOCK_REF: SuiMoveNormalizedType = { Reference: struct('0x2', 'clock', 'Clock') };
+const TX_CONTEXT: SuiMoveNormalizedType = { MutableReference: struct('0x2', 'tx_context', 'TxContext') };
+const STRING = struct('0x1', 'string', 'String');
+
+const moveFunction = (parameters: SuiMoveNormalizedType[], returns: SuiMoveNormalizedType[] = []): SuiMoveNormalizedFunction => ({
+  isEntry: returns.length === 0,
+  parameters,
+  return: returns,
+  typeParameters: [],
+  visibility: 'Public',
+});
+
+const MOVE_FUNCTIONS: Record<string, SuiMoveNormalizedFunction> = {
+  'perk_manager::claim_perk_by_user': moveFunction([CONFIG_REF, PERK_MUT, LEDGER_MUT, CLOCK_REF, TX_CONTEXT]),
+  'perk_manager::claim_perk_with_metadata_by_user': moveFunction([CONFIG_REF, PERK_MUT, LEDGER_MUT, STRING, STRING, CLOCK_REF, TX_CONTEXT]),
+  'perk_manager::consume_perk': moveFunction([CLAIMED_PERK_MUT, CLOCK_REF, TX_CONTEXT]),
+  'ledger::get_available_balance': moveFunction([LEDGER_REF, 'Address'], ['U64']),
+  'ledger::get_locked_balance': moveFunction([LEDGER_REF, 'Address'], ['U64']),
+  'integration::get_user_points_balance': moveFunction([LEDGER_REF, 'Address'], ['U64']),
+};
+
+// Events the app checks the shape of before relying on them
+const OBJECT_ID = struct('0x2', 'object', 'ID');
+const MOVE_STRUCTS: Record<string, SuiMoveNormalizedStruct> = {
+  'perk_manager::PerkConsumed': {
+    abilities: { abilities: ['Copy', 'Drop'] },
+    typeParameters: [],
+    fields: [
+      { name: 'claimed_perk_id', type: OBJECT_ID },
+      { name: 'perk_definition_id', type: OBJECT_ID },
+      { name: 'user', type: 'Address' },
+      { name: 'remaining_uses', type: { Struct: { address: '0x1', module: 'option', name: 'Option', typeArguments: ['U64'] } } },
+    ],
+  },
+};
+
+const matchesObjectFilter = (object: DemoObject, filter: SuiObjectDataFilter): boolean => {
+  if ('StructType' in filter) return object.type === filter.StructType;
+  if ('MatchAny' in filter) return filter.MatchAny.some(inner => matchesObjectFilter(object, inner));
+  if ('MatchAll' in filter) return filter.MatchAll.every(inner => matchesObjectFilter(object, inner));
+  if ('MatchNone' in filter) return !filter.MatchNone.some(inner => matchesObjectFilter(object, inner));
+  if ('Package' in filter) return object.type.startsWith(`${normalizeSuiAddress(filter.Package)}::`);
+  if ('MoveModule' in filter) {
+    return object.type.startsWith(`${normalizeSuiAddress(filter.MoveModule.package)}::${filter.MoveModule.module}::`);
+  }
+  throw new JsonRpcError(`Demo chain does not support object filter ${Object.keys(filter)[0]}`, -32602);
+};
+
+const matchesEventFilter = (event: SuiEvent, filter: SuiEventFilter): boolean => {
+  if ('MoveEventType' in filter) return event.type === filter.MoveEventType;
+  if ('MoveModule' in filter) {
+    return event.packageId === normalizeSuiAddress(filter.MoveModule.package)
+      && event.transactionModule === filter.MoveModule.module;
+  }
+  if ('Sender' in filter) return event.sender === normalizeSuiAddress(filter.Sender);
+  if ('Any' in filter) return filter.Any.some(inner => matchesEventFilter(event, inner));
+  if ('All' in filter) return filter.All.every(inner => matchesEventFilter(event, inner));
+  throw new JsonRpcError(`Demo chain does not support event filter ${Object.keys(filter)[0]}`, -32602);
+};
+
+/**
+ * In-memory stand-in for the perk_manager contracts.
+ *
+ * Implements the JSON-RPC methods the app (and the SDK's transaction
+ * builder) uses against a seeded fixture ledger: object and event reads,
+ * balance queries via devInspect, and claim transactions. State lives for
+ * the lifetime of the page.
+ */
+export class DemoChain {
+  private objects = new Map<string, DemoObject>();
+  private events: SuiEvent[] = [];
+  private balances = new Map<string, bigint>();
+  private transactions = new Map<string, SuiTransactionBlockResponse>();
+  private transactionSenders = new Map<string, string>();
+  private idCounter = 0;
+  private digestCounter = 0;
+
+  constructor() {
+    this.seed();
+  }
+
+  private nextId(): string {
+    this.idCounter += 1;
+    return `0x${'de31'.repeat(15)}${this.idCounter.toString(16).padStart(4, '0')}`;
+  }
+
+  private nextDigest(): string {
+    this.digestCounter += 1;
+    const bytes = new Uint8Array(32);
+    new DataView(bytes.buffer).setUint32(0, this.digestCounter);
+    bytes[31] = 0xde;
+    return toBase58(bytes);
+  }
+
+  private put(object: Omit<DemoObject, 'version' | 'digest'> & { version?: number }): DemoObject {
+    const stored: DemoObject = { ...object, version: object.version ?? 1, digest: this.nextDigest() };
+    this.objects.set(stored.objectId, stored);
+    return stored;
+  }
+
+  // Bump an object's version after a transaction mutates it
+  private touch(object: DemoObject, txDigest: string) {
+    object.version += 1;
+    object.digest = this.nextDigest();
+    object.previousTransaction = txDigest;
+  }
+
+  private emit(txDigest: string, sender: string, module: string, name: string, parsedJson: Record<string, unknown>) {
+    const eventSeq = this.events.filter(event => event.id.txDigest === txDigest).length;
+    this.events.push({
+      id: { txDigest, eventSeq: String(eventSeq) },
+      packageId: PACKAGE,
+      transactionModule: module,
+      sender,
+      type: `${PACKAGE}::${module}::${name}`,
+      parsedJson,
+      timestampMs: String(Date.now()),
+      bcs: '',
+      bcsEncoding: 'base64',
+    });
+  }
+
+  private seed() {
+    const genesis = this.nextDigest();
+    const shared = { Shared: { initial_shared_version: '1' } } as ObjectOwner;
+    const admin = normalizeSuiAddress('0xad');
+
+    this.put({ objectId: DEMO_IDS.config, type: `${PACKAGE}::admin::Config`, owner: shared, previousTransaction: genesis, fields: { paused: false } });
+    this.put({ objectId: DEMO_IDS.ledger, type: `${PACKAGE}::ledger::Ledger`, owner: shared, previousTransaction: genesis, fields: {} });
+    // 1000 points per USD, scaled by 10^9
+    this.put({ objectId: DEMO_IDS.oracle, type: `${PACKAGE}::oracle::RateOracle`, owner: shared, previousTransaction: genesis, fields: { base_rate: '1000000000000', decimals: 9, last_price_update_timestamp_ms: String(Date.now()) } });
+    this.put({ objectId: CLOCK_ID, type: '0x2::clock::Clock', owner: shared, previousTransaction: genesis, fields: { timestamp_ms: String(Date.now()) } });
+
+    DEMO_PARTNERS.forEach(partner => {
+      this.put({
+        objectId: partner.id,
+        type: `${PACKAGE}::partner::PartnerCap`,
+        owner: { AddressOwner: admin },
+        previousTransaction: genesis,
+        fields: { partner_name: partner.name },
+      });
+    });
+
+    const now = Date.now();
+    DEMO_PERKS.forEach((perk, index) => {
+      const createdAt = now - (DEMO_PERKS.length - index) * DAY_MS;
+      const txDigest = this.nextDigest();
+
+      this.put({
+        objectId: perk.id,
+        type: `${PACKAGE}::perk_manager::PerkDefinition`,
+        owner: shared,
+        previousTransaction: txDigest,
+        fields: {
+          name: perk.name,
+          description: perk.description,
+          creator_partner_cap_id: perk.partnerId,
+          perk_type: perk.perkType,
+          usdc_price: String(perk.usdcPrice),
+          current_alpha_points_price: String(perk.alphaPointsPrice),
+          last_price_update_timestamp_ms: String(createdAt),
+          total_claims_count: String(perk.totalClaims),
+          max_claims: perk.maxClaims !== undefined ? String(perk.maxClaims) : null,
+          max_uses_per_claim: perk.maxUsesPerClaim !== undefined ? String(perk.maxUsesPerClaim) : null,
+          expiration_timestamp_ms: perk.expiresInDays !== undefined ? String(now + perk.expiresInDays * DAY_MS) : null,
+          is_active: perk.isActive ?? true,
+          generates_unique_claim_metadata: perk.generatesUniqueClaimMetadata ?? false,
+          tags: perk.tags,
+          tag_metadata_id: null,
+          definition_metadata_id: null,
+          revenue_split_policy: {
+            type: `${PACKAGE}::perk_manager::RevenueSplitPolicy`,
+            fields: { partner_share_percentage: '70', platform_share_percentage: '30' },
+          },
+        },
+      });
+
+      this.emit(txDigest, admin, 'perk_manager', 'PerkDefinitionCreated', {
+        perk_definition_id: perk.id,
+        creator_partner_cap_id: perk.partnerId,
+        name: perk.name,
+        perk_type: perk.perkType,
+      });
+    });
+  }
+
+  // Every demo account starts with the same balance the first time it is seen
+  private balanceOf(address: string): bigint {
+    const owner = normalizeSuiAddress(address);
+    if (!this.balances.has(owner)) {
+      this.balances.set(owner, DEMO_STARTING_POINTS);
+    }
+    return this.balances.get(owner) as bigint;
+  }
+
+  private gasCoinFor(address: string): DemoObject {
+    const owner = normalizeSuiAddress(address);
+    const existing = Array.from(this.objects.values()).find(object =>
+      object.type === '0x2::coin::Coin<0x2::sui::SUI>' &&
+      'AddressOwner' in (object.owner as object) &&
+      (object.owner as { AddressOwner: string }).AddressOwner === owner
+    );
+    return existing ?? this.put({
+      objectId: this.nextId(),
+      type: '0x2::coin::Coin<0x2::sui::SUI>',
+      owner: { AddressOwner: owner },
+      previousTransaction: this.nextDigest(),
+      fields: { balance: GAS_COIN_BALANCE },
+    });
+  }
+
+  private toObjectResponse(objectId: string): SuiObjectResponse {
+    const object = this.objects.get(normalizeSuiAddress(objectId));
+    if (!object) {
+      return { error: { code: 'notExists', object_id: objectId } };
+    }
+
+    return {
+      data: {
+        objectId: object.objectId,
+        version: String(object.version),
+        digest: object.digest,
+        type: object.type,
+        owner: object.owner,
+        previousTransaction: object.previousTransaction,
+        storageRebate: '0',
+        content: {
+          dataType: 'moveObject',
+          type: object.type,
+          hasPublicTransfer: false,
+          fields: { id: { id: object.objectId }, ...object.fields } as never,
+        },
+      },
+    };
+  }
+
+  private readAddress(inputs: CallArg[], argument: unknown): string {
+    const index = (argument as { Input?: number }).Input;
+    const input = index !== undefined ? inputs[index] : undefined;
+    if (!input?.Pure) {
+      throw new JsonRpcError('Demo chain expected a pure address argument', -32602);
+    }
+    return normalizeSuiAddress(bcs.Address.fromBase64(input.Pure.bytes));
+  }
+
+  private readString(inputs: CallArg[], argument: unknown): string {
+    const index = (argument as { Input?: number }).Input;
+    const input = index !== undefined ? inputs[index] : undefined;
+    return input?.Pure ? bcs.string().fromBase64(input.Pure.bytes) : '';
+  }
+
+  private readObjectId(inputs: CallArg[], argument: unknown): string {
+    const index = (argument as { Input?: number }).Input;
+    const object = index !== undefined ? inputs[index]?.Object : undefined;
+    const reference = object?.SharedObject ?? object?.ImmOrOwnedObject ?? object?.Receiving;
+    if (!reference) {
+      throw new JsonRpcError('Demo chain expected an object argument', -32602);
+    }
+    return normalizeSuiAddress(reference.objectId);
+  }
+
+  private functionKey(command: Command): string {
+    const call = command.MoveCall;
+    if (!call) {
+      throw new JsonRpcError(`Demo chain only supports MoveCall commands, got ${command.$kind}`, -32602);
+    }
+    if (normalizeSuiAddress(call.package) !== PACKAGE) {
+      throw new JsonRpcError(`Demo chain has no package ${call.package}`, -32602);
+    }
+    const key = `${call.module}::${call.function}`;
+    if (!MOVE_FUNCTIONS[key]) {
+      throw new JsonRpcError(`Demo chain does not implement ${key}`, -32601);
+    }
+    return key;
+  }
+
+  // Validate every command in a transaction before applying any of them
+  private planTransaction(sender: string, inputs: CallArg[], commands: Command[]): PendingTransaction {
+    const now = BigInt(Date.now());
+    const claims: PendingClaim[] = [];
+    const consumed: DemoObject[] = [];
+    const claimsPerPerk = new Map<string, bigint>();
+    let spent = 0n;
+
+    commands.forEach((command, commandIndex) => {
+      const key = this.functionKey(command);
+      const call = command.MoveCall!;
+      if (key === 'perk_manager::consume_perk') {
+        consumed.push(this.planConsume(sender, inputs, call.arguments[0], consumed, commandIndex));
+        return;
+      }
+      if (!key.startsWith('perk_manager::claim_')) {
+        throw new JsonRpcError(`${key} cannot be executed in a transaction`, -32602);
+      }
+
+      const perk = this.objects.get(this.readObjectId(inputs, call.arguments[1]));
+      if (!perk) {
+        throw new JsonRpcError('Perk definition not found', -32602);
+      }
+
+      const fields = perk.fields;
+      const price = BigInt(fields.current_alpha_points_price as string);
+      const claimed = BigInt(fields.total_claims_count as string) + (claimsPerPerk.get(perk.objectId) ?? 0n);
+
+      if (!fields.is_active) {
+        throw new DemoAbort(DEMO_ABORT_CODES.perkInactive, call.function, commandIndex);
+      }
+      if (fields.expiration_timestamp_ms !== null && BigInt(fields.expiration_timestamp_ms as string) <= now) {
+        throw new DemoAbort(DEMO_ABORT_CODES.perkExpired, call.function, commandIndex);
+      }
+      if (fields.max_claims !== null && claimed >= BigInt(fields.max_claims as string)) {
+        throw new DemoAbort(DEMO_ABORT_CODES.maxClaimsReached, call.function, commandIndex);
+      }
+      if (this.balanceOf(sender) < spent + price) {
+        throw new DemoAbort(DEMO_ABORT_CODES.insufficientPoints, call.function, commandIndex);
+      }
+
+      spent += price;
+      claimsPerPerk.set(perk.objectId, (claimsPerPerk.get(perk.objectId) ?? 0n) + 1n);
+      claims.push({
+        perk,
+        price,
+        metadata: key === 'perk_manager::claim_perk_with_metadata_by_user'
+          ? { key: this.readString(inputs, call.arguments[3]), value: this.readString(inputs, call.arguments[4]) }
+          : undefined,
+      });
+    });
+
+    return { claims, consumed };
+  }
+
+  private planConsume(sender: string, inputs: CallArg[], argument: unknown, consumed: DemoObject[], commandIndex: number): DemoObject {
+    const claimedPerk = this.objects.get(this.readObjectId(inputs, argument));
+    if (!claimedPerk || !claimedPerk.type.endsWith('::perk_manager::ClaimedPerk')) {
+      throw new JsonRpcError('Claimed perk not found', -32602);
+    }
+    if (claimedPerk.fields.owner !== sender) {
+      throw new DemoAbort(DEMO_ABORT_CODES.notOwner, 'consume_perk', commandIndex);
+    }
+
+    // Earlier commands in the same transaction count against the uses left
+    const remaining = claimedPerk.fields.remaining_uses;
+    const earlierUses = BigInt(consumed.filter(object => object === claimedPerk).length);
+    if (claimedPerk.fields.status !== 'ACTIVE' || (remaining !== null && BigInt(remaining as string) <= earlierUses)) {
+      throw new DemoAbort(DEMO_ABORT_CODES.noUsesRemaining, 'consume_perk', commandIndex);
+    }
+    return claimedPerk;
+  }
+
+  private applyConsumes(sender: string, txDigest: string, consumed: DemoObject[]): string[] {
+    consumed.forEach(claimedPerk => {
+      const { fields } = claimedPerk;
+      if (fields.remaining_uses !== null) {
+        const remaining = BigInt(fields.remaining_uses as string) - 1n;
+        fields.remaining_uses = remaining.toString();
+        if (remaining === 0n) fields.status = 'FULLY_CONSUMED';
+      }
+      this.touch(claimedPerk, txDigest);
+
+      this.emit(txDigest, sender, 'perk_manager', 'PerkConsumed', {
+        claimed_perk_id: claimedPerk.objectId,
+        perk_definition_id: fields.perk_definition_id,
+        user: sender,
+        remaining_uses: fields.remaining_uses,
+      });
+    });
+
+    return [...new Set(consumed.map(claimedPerk => claimedPerk.objectId))];
+  }
+
+  private applyClaims(sender: string, txDigest: string, claims: PendingClaim[]): string[] {
+    const created: string[] = [];
+
+    claims.forEach(({ perk, price, metadata }) => {
+      this.balances.set(sender, this.balanceOf(sender) - price);
+      perk.fields.total_claims_count = String(BigInt(perk.fields.total_claims_count as string) + 1n);
+      this.touch(perk, txDigest);
+
+      const claimedPerk = this.put({
+        objectId: this.nextId(),
+        type: `${PACKAGE}::perk_manager::ClaimedPerk`,
+        owner: { AddressOwner: sender },
+        previousTransaction: txDigest,
+        fields: {
+          perk_definition_id: perk.objectId,
+          owner: sender,
+          claim_timestamp_ms: String(Date.now()),
+          status: 'ACTIVE',
+          remaining_uses: perk.fields.max_uses_per_claim,
+          claim_specific_metadata_id: null,
+          ...(metadata ? { metadata_key: metadata.key, metadata_value: metadata.value } : {}),
+        },
+      });
+      created.push(claimedPerk.objectId);
+
+      this.emit(txDigest, sender, 'perk_manager', 'PerkClaimed', {
+        perk_definition_id: perk.objectId,
+        claimed_perk_id: claimedPerk.objectId,
+        user: sender,
+        alpha_points_spent: price.toString(),
+      });
+    });
+
+    const ledger = this.objects.get(DEMO_IDS.ledger);
+    if (ledger && claims.length > 0) this.touch(ledger, txDigest);
+
+    return created;
+  }
+
+  private effects(txDigest: string, sender: string, status: ExecutionStatus, created: string[] = [], mutated: string[] = []): TransactionEffects {
+    const gasCoin = this.gasCoinFor(sender);
+    const reference = (objectId: string) => {
+      const object = this.objects.get(objectId)!;
+      return {
+        owner: object.owner,
+        reference: { objectId, version: String(object.version), digest: object.digest },
+      };
+    };
+    return {
+      messageVersion: 'v1',
+      status,
+      executedEpoch: '0',
+      gasUsed: { computationCost: '1000000', storageCost: '0', storageRebate: '0', nonRefundableStorageFee: '0' },
+      transactionDigest: txDigest,
+      gasObject: {
+        owner: gasCoin.owner,
+        reference: { objectId: gasCoin.objectId, version: String(gasCoin.version), digest: gasCoin.digest },
+      },
+      created: created.map(reference),
+      mutated: mutated.map(reference),
+    };
+  }
+
+  // Run a signed transaction. With commit=false this is a dry run.
+  private runTransaction(txBytes: string, commit: boolean) {
+    const bytes = fromBase64(txBytes);
+    const data = TransactionDataBuilder.fromBytes(bytes);
+    const txDigest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    const sender = normalizeSuiAddress(data.sender ?? '0x0');
+    const eventCount = this.events.length;
+
+    try {
+      const { claims, consumed } = this.planTransaction(sender, data.inputs, data.commands);
+      const created = commit ? this.applyClaims(sender, txDigest, claims) : [];
+      const mutated = commit ? this.applyConsumes(sender, txDigest, consumed) : [];
+      return {
+        txDigest,
+        sender,
+        effects: this.effects(txDigest, sender, { status: 'success' }, created, mutated),
+        events: this.events.slice(eventCount),
+      };
+    } catch (error) {
+      if (!(error instanceof DemoAbort)) throw error;
+      return {
+        txDigest,
+        sender,
+        effects: this.effects(txDigest, sender, { status: 'failure', error: error.message }),
+        events: [],
+      };
+    }
+  }
+
+  private devInspect(sender: string, txBytes: string): DevInspectResults {
+    const data = TransactionDataBuilder.fromKindBytes(fromBase64(txBytes));
+    const results = data.commands.map(command => {
+      const key = this.functionKey(command);
+      const owner = this.readAddress(data.inputs, command.MoveCall!.arguments[1]);
+
+      let value = 0n;
+      if (key === 'ledger::get_available_balance' || key === 'integration::get_user_points_balance') {
+        value = this.balanceOf(owner);
+      } else if (key !== 'ledger::get_locked_balance') {
+        throw new JsonRpcError(`${key} cannot be dev-inspected on the demo chain`, -32602);
+      }
+
+      return {
+        returnValues: [[Array.from(encodeU64(value)), 'u64']] as [number[], string][],
+      };
+    });
+
+    return {
+      effects: this.effects(this.nextDigest(), sender, { status: 'success' }),
+      events: [],
+      results,
+    };
+  }
+
+  private queryEvents(query: SuiEventFilter, cursor: EventId | null, limit: number | null, descending: boolean) {
+    const matching = this.events.filter(event => matchesEventFilter(event, query));
+    const ordered = descending ? [...matching].reverse() : matching;
+
+    const start = cursor
+      ? ordered.findIndex(event => event.id.txDigest === cursor.txDigest && event.id.eventSeq === cursor.eventSeq) + 1
+      : 0;
+    const data = ordered.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE));
+    const hasNextPage = start + data.length < ordered.length;
+
+    return { data, hasNextPage, nextCursor: data[data.length - 1]?.id ?? cursor };
+  }
+
+  private queryTransactionBlocks(query: { filter?: TransactionFilter | null } | null, cursor: string | null, limit: number | null, descending: boolean) {
+    const filter = query?.filter;
+    if (filter && !('FromAddress' in filter)) {
+      throw new JsonRpcError(`Demo chain does not support transaction filter ${Object.keys(filter)[0]}`, -32602);
+    }
+
+    const matching = Array.from(this.transactions.values()).filter(transaction =>
+      !filter || this.transactionSenders.get(transaction.digest) === normalizeSuiAddress(filter.FromAddress)
+    );
+    const ordered = descending ? matching.reverse() : matching;
+
+    const start = cursor ? ordered.findIndex(transaction => transaction.digest === cursor) + 1 : 0;
+    const data = ordered.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE));
+    const hasNextPage = start + data.length < ordered.length;
+
+    return { data, hasNextPage, nextCursor: data[data.length - 1]?.digest ?? cursor };
+  }
+
+  private getOwnedObjects(owner: string, query: { filter?: SuiObjectDataFilter | null } | null, cursor: string | null, limit: number | null) {
+    const address = normalizeSuiAddress(owner);
+    const owned = Array.from(this.objects.values()).filter(object =>
+      typeof object.owner === 'object' &&
+      'AddressOwner' in object.owner &&
+      object.owner.AddressOwner === address &&
+      (!query?.filter || matchesObjectFilter(object, query.filter))
+    );
+
+    const start = cursor ? owned.findIndex(object => object.objectId === cursor) + 1 : 0;
+    const page = owned.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE));
+    const hasNextPage = start + page.length < owned.length;
+
+    return {
+      data: page.map(object => this.toObjectResponse(object.objectId)),
+      hasNextPage,
+      nextCursor: page[page.length - 1]?.objectId ?? null,
+    };
+  }
+
+  /**
+   * Handle a JSON-RPC request the way a fullnode would
+   */
+  handle(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case 'sui_getObject':
+        return this.toObjectResponse(params[0] as string);
+
+      case 'sui_multiGetObjects':
+        return (params[0] as string[]).map(id => this.toObjectResponse(id));
+
+      case 'suix_getOwnedObjects':
+        return this.getOwnedObjects(
+          params[0] as string,
+          params[1] as { filter?: SuiObjectDataFilter | null } | null,
+          (params[2] as string | null) ?? null,
+          (params[3] as number | null) ?? null
+        );
+
+      case 'suix_queryEvents':
+        return this.queryEvents(
+          params[0] as SuiEventFilter,
+          (params[1] as EventId | null) ?? null,
+          (params[2] as number | null) ?? null,
+          params[3] as boolean
+        );
+
+      case 'suix_queryTransactionBlocks':
+        return this.queryTransactionBlocks(
+          params[0] as { filter?: TransactionFilter | null } | null,
+          (params[1] as string | null) ?? null,
+          (params[2] as number | null) ?? null,
+          params[3] as boolean
+        );
+
+      case 'sui_getNormalizedMoveFunction': {
+        const [packageId, module, fn] = params as [string, string, string];
+        const definition = MOVE_FUNCTIONS[`${module}::${fn}`];
+        if (normalizeSuiAddress(packageId) !== PACKAGE || !definition) {
+          throw new JsonRpcError(`Demo chain has no function ${packageId}::${module}::${fn}`, -32602);
+        }
+        return definition;
+      }
+
+      case 'sui_getNormalizedMoveStruct': {
+        const [packageId, module, name] = params as [string, string, string];
+        const definition = MOVE_STRUCTS[`${module}::${name}`];
+        if (normalizeSuiAddress(packageId) !== PACKAGE || !definition) {
+          throw new JsonRpcError(`Demo chain has no struct ${packageId}::${module}::${name}`, -32602);
+        }
+        return definition;
+      }
+
+      case 'sui_devInspectTransactionBlock':
+        return this.devInspect(params[0] as string, params[1] as string);
+
+      case 'suix_getReferenceGasPrice':
+        return GAS_PRICE;
+
+      case 'suix_getCoins': {
+        const coin = this.gasCoinFor(params[0] as string);
+        return {
+          data: [{
+            coinType: '0x2::sui::SUI',
+            coinObjectId: coin.objectId,
+            version: String(coin.version),
+            digest: coin.digest,
+            balance: GAS_COIN_BALANCE,
+            previousTransaction: coin.previousTransaction,
+          }],
+          hasNextPage: false,
+          nextCursor: null,
+        };
+      }
+
+      case 'sui_dryRunTransactionBlock': {
+        const { effects, events } = this.runTransaction(params[0] as string, false);
+        return { effects, events, objectChanges: [], balanceChanges: [] } as unknown as DryRunTransactionBlockResponse;
+      }
+
+      case 'sui_executeTransactionBlock': {
+        const { txDigest, sender, effects, events } = this.runTransaction(params[0] as string, true);
+        const response: SuiTransactionBlockResponse = {
+          digest: txDigest,
+          effects,
+          events,
+          timestampMs: String(Date.now()),
+          // Wallets forward these as base64 effects; the app only reads the digest
+          rawEffects: [],
+          confirmedLocalExecution: true,
+        };
+        this.transactions.set(txDigest, response);
+        this.transactionSenders.set(txDigest, sender);
+        return response;
+      }
+
+      case 'sui_getTransactionBlock': {
+        const transaction = this.transactions.get(params[0] as string);
+        if (!transaction) {
+          throw new JsonRpcError(`Could not find the referenced transaction [TransactionDigest(${params[0]})]`, -32602);
+        }
+        return transaction;
+      }
+
+      default:
+        throw new JsonRpcError(`Demo chain does not implement ${method}`, -32601);
+    }
+  }
+}
+
+/**
+ * SuiTransport that answers requests from a DemoChain instead of a fullnode
+ */
+export class DemoTransport implements SuiTransport {
+  private chain: DemoChain;
+
+  constructor(chain: DemoChain) {
+    this.chain = chain;
+  }
+
+  async request<T = unknown>(input: SuiTransportRequestOptions): Promise<T> {
+    // Yield like a network call so callers never depend on synchronous results
+    await Promise.resolve();
+    input.signal?.throwIfAborted();
+    return this.chain.handle(input.method, input.params) as T;
+  }
+
+  async subscribe(): Promise<() => Promise<boolean>> {
+    throw new JsonRpcError('Demo chain does not support subscriptions', -32601);
+  }
+}
+
+export const createDemoSuiClient = (chain = new DemoChain()): SuiClient =>
+  new SuiClient({ transport: new DemoTransport(chain) });
+
+// Shared by every consumer so claims show up across hooks and services
+export const demoSuiClient = createDemoSuiClient();
@@ -61,14 +61,6 @@ export class DiscordAuthService {
 
     const authUrl = `https://discord.com/api/oauth2/authorize?${params.toString()}`;
     
-    // Console log removed:', {
-      clientId: DISCORD_CLIENT_ID,
-      redirectUri: DISCORD_REDIRECT_URI,
-      scopes: DISCORD_SCOPES,
-      state,
-      authUrl
-    });
-    
     window.location.href = authUrl;
   }
 
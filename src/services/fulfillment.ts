@@ -0,0 +1,67 @@
+import { DEFAULT_FULFILLMENT_PROVIDER, FULFILLMENT_PROVIDERS } from '../config/fulfillment';
+import type { FulfillmentProvider } from './fulfillmentProviders';
+import type { OpportunityRedemptionContext, OwnedPerk, RedemptionContext, RedemptionOpportunity, RedemptionResult } from '../types/index';
+
+/**
+ * The provider that fulfils a perk - the most specific registration wins.
+ * Null when none is registered or the one that is can't fulfil the perk.
+ */
+export const getFulfillmentProvider = (perk: OwnedPerk): FulfillmentProvider | null => {
+  const provider = FULFILLMENT_PROVIDERS.find(entry => entry.perkDefinitionId === perk.perkDefinitionId)?.provider
+    ?? FULFILLMENT_PROVIDERS.find(entry => entry.partnerCapId === perk.partnerCapId)?.provider
+    ?? FULFILLMENT_PROVIDERS.find(entry => entry.redemptionType === perk.redemptionType)?.provider
+    ?? DEFAULT_FULFILLMENT_PROVIDER;
+  return provider && provider.supports?.(perk.redemptionType) !== false ? provider : null;
+};
+
+/**
+ * Hand a consumed perk to its provider. Never throws - provider errors
+ * come back as an unsuccessful result.
+ */
+export const fulfillRedemption = async (context: RedemptionContext): Promise<RedemptionResult> => {
+  const { redemptionType } = context.claimedPerk;
+  const provider = getFulfillmentProvider(context.claimedPerk);
+  if (!provider) {
+    return { success: false, type: redemptionType, data: {}, message: 'No fulfillment provider is configured for this perk.' };
+  }
+
+  try {
+    return await provider.fulfill(context);
+  } catch (error) {
+    console.error(`Fulfillment provider ${provider.id} failed:`, error);
+    const reason = error instanceof Error && error.name === 'AbortError' ? 'timed out' : 'failed';
+    return { success: false, type: redemptionType, data: {}, message: `Fulfillment ${reason}.` };
+  }
+};
+
+/**
+ * The provider that issues an opportunity's reward - the one registered
+ * for its redemption type, then the default. Null when that one can't.
+ */
+export const getOpportunityFulfillmentProvider = (opportunity: RedemptionOpportunity): FulfillmentProvider | null => {
+  const { redemptionType } = opportunity.reward;
+  const provider = FULFILLMENT_PROVIDERS.find(entry => entry.redemptionType === redemptionType)?.provider
+    ?? DEFAULT_FULFILLMENT_PROVIDER;
+  return provider?.fulfillOpportunity && provider.supports?.(redemptionType) !== false ? provider : null;
+};
+
+/**
+ * Ask the provider for an opportunity's reward. Never throws - provider
+ * errors and refusals (such as a reached limit) come back as an
+ * unsuccessful result.
+ */
+export const fulfillOpportunityRedemption = async (context: OpportunityRedemptionContext): Promise<RedemptionResult> => {
+  const { redemptionType } = context.opportunity.reward;
+  const provider = getOpportunityFulfillmentProvider(context.opportunity);
+  if (!provider?.fulfillOpportunity) {
+    return { success: false, type: redemptionType, data: {}, message: 'No fulfillment provider is configured for this reward.' };
+  }
+
+  try {
+    return await provider.fulfillOpportunity(context);
+  } catch (error) {
+    console.error(`Fulfillment provider ${provider.id} failed:`, error);
+    const reason = error instanceof Error && error.name === 'AbortError' ? 'timed out' : 'failed';
+    return { success: false, type: redemptionType, data: {}, message: `Fulfillment ${reason}.` };
+  }
+};
@@ -0,0 +1,222 @@
+import { BRAND_CONFIG } from '../config/brand';
+import { DEMO_MODE } from '../config/demo';
+import { generateVoucherKeyPair, signVoucherCode } from '../utils/voucherCode';
+import type { OpportunityRedemptionContext, RedemptionContext, RedemptionResult, RedemptionType } from '../types/index';
+
+/**
+ * Turns a consumed perk into what the user gets: a code, download link,
+ * booking and so on. Throw or return `success: false` when it can't.
+ */
+export interface FulfillmentProvider {
+  id: string; // Shown in logs
+  fulfill: (context: RedemptionContext) => Promise<RedemptionResult>;
+  // Checked before the perk is consumed; every type when unset
+  supports?: (redemptionType: RedemptionType) => boolean;
+  // Issues redemption opportunity rewards and owns their per-wallet limit.
+  // Opportunities can't be redeemed through a provider without it.
+  fulfillOpportunity?: (context: OpportunityRedemptionContext) => Promise<RedemptionResult>;
+  preview?: boolean; // Results are placeholders no partner honours
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 15_000;
+
+const REDEMPTION_TYPES: RedemptionType[] = ['voucher_code', 'digital_delivery', 'service_booking', 'membership_access', 'physical_claim'];
+const RESULT_STRING_FIELDS = ['code', 'downloadUrl', 'bookingId', 'accessToken', 'claimTicket', 'instructions'] as const;
+
+const randomId = (length: number) => Math.random().toString(36).substring(2, 2 + length);
+
+// Brand initials, e.g. ALP-..., for signed voucher codes
+export const VOUCHER_PREFIX = BRAND_CONFIG.company.name.replace(/[^a-z0-9]/gi, '').substring(0, 3).toUpperCase() || 'PERK';
+
+// Voucher keys for the local provider. VITE_VOUCHER_SIGNING_KEY ships to the
+// browser, so it is only read in dev and demo builds and left out of
+// production bundles; without it a key pair is made per session and its
+// codes only verify in the same tab.
+const LOCAL_VOUCHER_SIGNING_KEY: string | undefined =
+  DEMO_MODE || import.meta.env.DEV ? import.meta.env.VITE_VOUCHER_SIGNING_KEY : undefined;
+const VOUCHER_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VOUCHER_PUBLIC_KEY;
+
+// Merchants verify against the configured public key, so codes signed with
+// a session key would all be rejected
+const LOCAL_VOUCHER_KEY_MISSING = !!VOUCHER_PUBLIC_KEY && !LOCAL_VOUCHER_SIGNING_KEY;
+if (LOCAL_VOUCHER_KEY_MISSING) {
+  console.warn('VITE_VOUCHER_PUBLIC_KEY is set without VITE_VOUCHER_SIGNING_KEY (read in dev and demo builds only) - the local provider will not issue voucher codes');
+}
+
+let localVoucherKeys: Promise<{ publicKey?: string; privateKey: JsonWebKey }> | null = null;
+
+const getLocalVoucherKeys = () => {
+  localVoucherKeys ??= LOCAL_VOUCHER_SIGNING_KEY
+    ? Promise.resolve({ publicKey: VOUCHER_PUBLIC_KEY, privateKey: JSON.parse(LOCAL_VOUCHER_SIGNING_KEY) as JsonWebKey })
+    : generateVoucherKeyPair();
+  return localVoucherKeys;
+};
+
+/**
+ * Public key merchants verify voucher codes with: VITE_VOUCHER_PUBLIC_KEY,
+ * or the local provider's session key in dev and demo builds
+ */
+export const getVoucherPublicKey = async (allowLocal: boolean): Promise<string | null> =>
+  VOUCHER_PUBLIC_KEY ?? (allowLocal ? (await getLocalVoucherKeys()).publicKey ?? null : null);
+
+/**
+ * In-process stand-in for development and demos. Voucher codes are signed
+ * with the local key; everything else is a placeholder no partner system
+ * knows about.
+ */
+export const localFulfillmentProvider: FulfillmentProvider = {
+  id: 'local',
+  preview: true,
+  supports: redemptionType => redemptionType !== 'voucher_code' || !LOCAL_VOUCHER_KEY_MISSING,
+  fulfill: async ({ claimedPerk, digest }) => {
+    switch (claimedPerk.redemptionType) {
+      case 'voucher_code': {
+        const expiresAt = Date.now() + 30 * DAY_MS;
+        const { privateKey } = await getLocalVoucherKeys();
+        return {
+          success: true,
+          type: 'voucher_code',
+          data: {
+            code: await signVoucherCode({ claimedPerkId: claimedPerk.id, digest, expiresAt }, privateKey, VOUCHER_PREFIX),
+            instructions: 'Show this code at checkout. The merchant can verify it against the chain.',
+            expiresAt,
+          },
+          message: 'Voucher code generated successfully!',
+        };
+      }
+
+      case 'digital_delivery':
+        return {
+          success: true,
+          type: 'digital_delivery',
+          data: {
+            downloadUrl: `https://downloads.${BRAND_CONFIG.company.name.toLowerCase()}.com/${randomId(13)}`,
+            instructions: 'Your digital content is ready for download. Link expires in 7 days.',
+            expiresAt: Date.now() + 7 * DAY_MS,
+          },
+          message: 'Digital content delivered successfully!',
+        };
+
+      case 'service_booking':
+        return {
+          success: true,
+          type: 'service_booking',
+          data: {
+            bookingId: `BK-${Date.now().toString().slice(-8)}`,
+            instructions: 'Your service slot has been reserved. You will receive a confirmation email shortly.',
+            expiresAt: Date.now() + 90 * DAY_MS,
+          },
+          message: 'Service booking confirmed!',
+        };
+
+      case 'membership_access':
+        return {
+          success: true,
+          type: 'membership_access',
+          data: {
+            accessToken: `AT-${randomId(18).toUpperCase()}`,
+            instructions: 'Your premium access has been activated. Use this token to access exclusive content.',
+            expiresAt: Date.now() + 365 * DAY_MS,
+          },
+          message: 'Premium access granted!',
+        };
+
+      case 'physical_claim':
+        return {
+          success: true,
+          type: 'physical_claim',
+          data: {
+            claimTicket: `CT-${Date.now().toString().slice(-6)}-${randomId(4).toUpperCase()}`,
+            instructions: 'Please provide this claim ticket and your ID when collecting your item. Processing time: 5-7 business days.',
+            expiresAt: Date.now() + 60 * DAY_MS,
+          },
+          message: 'Physical item claim initiated!',
+        };
+    }
+  },
+  // Nothing enforces the per-wallet limit beyond this browser's count
+  fulfillOpportunity: async ({ opportunity }) => ({
+    success: true,
+    type: opportunity.reward.redemptionType,
+    data: {
+      code: `PREVIEW-${opportunity.id.toUpperCase()}-${randomId(6).toUpperCase()}`,
+      instructions: `Local preview - this code was not issued by ${BRAND_CONFIG.company.name} and won't be honoured. ${opportunity.reward.description}`,
+      expiresAt: Date.now() + (opportunity.reward.validForDays ?? 365) * DAY_MS,
+    },
+    message: `${opportunity.title} preview generated`,
+  }),
+};
+
+// Check a webhook response has the RedemptionResult shape
+const parseRedemptionResult = (value: unknown, fallbackType: RedemptionType): RedemptionResult => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Fulfillment webhook returned no result');
+  }
+  const body = value as Record<string, unknown>;
+  if (typeof body.success !== 'boolean' || typeof body.message !== 'string') {
+    throw new Error('Fulfillment webhook result needs "success" and "message"');
+  }
+
+  const rawData = (body.data && typeof body.data === 'object' ? body.data : {}) as Record<string, unknown>;
+  const data: RedemptionResult['data'] = {};
+  for (const field of RESULT_STRING_FIELDS) {
+    if (typeof rawData[field] === 'string') data[field] = rawData[field];
+  }
+  if (typeof rawData.expiresAt === 'number') data.expiresAt = rawData.expiresAt;
+
+  return {
+    success: body.success,
+    type: REDEMPTION_TYPES.includes(body.type as RedemptionType) ? body.type as RedemptionType : fallbackType,
+    data,
+    message: body.message,
+  };
+};
+
+export interface WebhookFulfillmentOptions {
+  url: string;
+  headers?: Record<string, string>; // Sent from the browser - never put secrets here
+  timeoutMs?: number; // Default 15s
+}
+
+/**
+ * Reference provider that POSTs the redemption context as JSON and expects
+ * a RedemptionResult back. The consume digest is sent as the idempotency
+ * key; the backend should check that transaction on-chain before honouring
+ * it, since anyone can call the webhook.
+ *
+ * Opportunity redemptions go to the same URL with `kind: "opportunity"`.
+ * The backend applies the per-wallet limit and should re-check the
+ * requirements against the wallet's perks on-chain.
+ */
+export const createWebhookFulfillmentProvider = ({
+  url,
+  headers = {},
+  timeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS,
+}: WebhookFulfillmentOptions): FulfillmentProvider => {
+  const post = async (body: unknown, idempotencyKey: string, fallbackType: RedemptionType): Promise<RedemptionResult> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey, ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Fulfillment webhook returned ${response.status}`);
+      }
+      return parseRedemptionResult(await response.json(), fallbackType);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id: `webhook:${url}`,
+    fulfill: (context) => post(context, context.digest, context.claimedPerk.redemptionType),
+    fulfillOpportunity: (context) =>
+      post({ kind: 'opportunity', ...context }, crypto.randomUUID(), context.opportunity.reward.redemptionType),
+  };
+};
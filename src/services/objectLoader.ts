@@ -0,0 +1,118 @@
+import type { SuiClient, SuiObjectDataOptions, SuiObjectResponse } from '@mysten/sui/client';
+import { isValidSuiObjectId, normalizeSuiObjectId } from '@mysten/sui/utils';
+
+// Sui RPC rejects multiGetObjects calls with more than 50 IDs
+const MAX_IDS_PER_REQUEST = 50;
+
+const OBJECT_OPTIONS: SuiObjectDataOptions = {
+  showContent: true,
+  showType: true,
+};
+
+interface PendingLoad {
+  resolve: (response: SuiObjectResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces individual object reads into multiGetObjects calls.
+ *
+ * Every load() issued in the same tick is queued and flushed together in
+ * chunks of 50, and an ID that is already being fetched shares the pending
+ * request instead of issuing a new one.
+ */
+export class ObjectLoader {
+  private client: SuiClient;
+  private queue = new Map<string, PendingLoad>();
+  private inFlight = new Map<string, Promise<SuiObjectResponse>>();
+  private flushScheduled = false;
+
+  constructor(client: SuiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Load a single object (content and type)
+   */
+  load(objectId: string): Promise<SuiObjectResponse> {
+    // multiGetObjects fails the whole batch on a malformed ID, so reject it here
+    const id = objectId ? normalizeSuiObjectId(objectId) : '';
+    if (!isValidSuiObjectId(id)) {
+      return Promise.reject(new Error(`Invalid Sui object ID: ${objectId}`));
+    }
+
+    const existing = this.inFlight.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = new Promise<SuiObjectResponse>((resolve, reject) => {
+      this.queue.set(id, { resolve, reject });
+    });
+    const settle = () => {
+      this.inFlight.delete(id);
+    };
+    promise.then(settle, settle);
+
+    this.inFlight.set(id, promise);
+    this.scheduleFlush();
+    return promise;
+  }
+
+  /**
+   * Load several objects, preserving the order of the requested IDs
+   */
+  loadMany(objectIds: string[]): Promise<SuiObjectResponse[]> {
+    return Promise.all(objectIds.map(id => this.load(id)));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+
+    // Wait one macrotask so loads issued from sibling promises join the batch
+    setTimeout(() => {
+      this.flushScheduled = false;
+      this.flush();
+    }, 0);
+  }
+
+  private flush(): void {
+    const pending = this.queue;
+    this.queue = new Map();
+
+    const ids = Array.from(pending.keys());
+    for (let i = 0; i < ids.length; i += MAX_IDS_PER_REQUEST) {
+      void this.fetchChunk(ids.slice(i, i + MAX_IDS_PER_REQUEST), pending);
+    }
+  }
+
+  private async fetchChunk(ids: string[], pending: Map<string, PendingLoad>): Promise<void> {
+    try {
+      const responses = await this.client.multiGetObjects({ ids, options: OBJECT_OPTIONS });
+
+      ids.forEach((id, index) => {
+        const response = responses[index];
+        if (response) {
+          pending.get(id)?.resolve(response);
+        } else {
+          pending.get(id)?.reject(new Error(`No response for object ${id}`));
+        }
+      });
+    } catch (error) {
+      ids.forEach(id => pending.get(id)?.reject(error));
+    }
+  }
+}
+
+// One loader per client so requests from different hooks share batches
+const loaders = new WeakMap<SuiClient, ObjectLoader>();
+
+export const getObjectLoader = (client: SuiClient): ObjectLoader => {
+  let loader = loaders.get(client);
+  if (!loader) {
+    loader = new ObjectLoader(client);
+    loaders.set(client, loader);
+  }
+  return loader;
+};
@@ -0,0 +1,46 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { readMoveU64 } from '../utils/perkDefinition';
+
+export interface OracleRate {
+  pointsPerUsd: number;
+  updatedAtMs: number | null; // null when the oracle doesn't record it
+}
+
+type MoveFields = Record<string, unknown>;
+
+const MAX_RATE_DECIMALS = 18;
+
+/**
+ * Read the points-per-USD rate from oracle object fields. The rate is
+ * stored as `base_rate` scaled by 10^`decimals`; the update time comes from
+ * `last_price_update_timestamp_ms` (or `last_update_timestamp_ms` on older
+ * oracles). Returns null when the fields don't hold a usable rate.
+ */
+export const parseOracleRate = (fields: MoveFields): OracleRate | null => {
+  const baseRate = readMoveU64(fields.base_rate);
+  const decimals = Number(readMoveU64(fields.decimals) ?? 0n);
+  if (baseRate === undefined || baseRate === 0n || decimals > MAX_RATE_DECIMALS) return null;
+
+  const updatedAt = readMoveU64(fields.last_price_update_timestamp_ms ?? fields.last_update_timestamp_ms);
+  return {
+    pointsPerUsd: Number(baseRate) / 10 ** decimals,
+    updatedAtMs: updatedAt === undefined ? null : Number(updatedAt),
+  };
+};
+
+/**
+ * Fetch the current conversion rate from the shared oracle object
+ */
+export const fetchOracleRate = async (client: SuiClient, oracleId: string): Promise<OracleRate> => {
+  const response = await client.getObject({ id: oracleId, options: { showContent: true } });
+  const content = response.data?.content;
+  if (content?.dataType !== 'moveObject') {
+    throw new Error(`Oracle ${oracleId} not found`);
+  }
+
+  const rate = parseOracleRate(content.fields as MoveFields);
+  if (!rate) {
+    throw new Error(`Oracle ${oracleId} has no usable rate`);
+  }
+  return rate;
+};
@@ -0,0 +1,127 @@
+import type {
+  SuiClient,
+  SuiObjectDataFilter,
+  SuiObjectDataOptions,
+  SuiObjectResponse,
+} from '@mysten/sui/client';
+import { getPerkManagerStructTypes } from '../config/sui';
+import { readMoveOption, readMoveU64 } from '../utils/perkDefinition';
+
+// Largest page getOwnedObjects serves
+const MAX_PAGE_SIZE = 50;
+
+const DEFAULT_OPTIONS: SuiObjectDataOptions = {
+  showContent: true,
+  showType: true,
+};
+
+export interface OwnedObjectQuery {
+  filter?: SuiObjectDataFilter;
+  options?: SuiObjectDataOptions;
+  signal?: AbortSignal; // Stops the walk between pages
+}
+
+/**
+ * Walk every page of an address's owned objects, yielding one object at a
+ * time. Pages are only requested as the caller consumes them.
+ */
+export async function* iterateOwnedObjects(
+  client: SuiClient,
+  owner: string,
+  { filter, options = DEFAULT_OPTIONS, signal }: OwnedObjectQuery = {}
+): AsyncGenerator<SuiObjectResponse> {
+  let cursor: string | null | undefined = null;
+
+  do {
+    signal?.throwIfAborted();
+
+    const page = await client.getOwnedObjects({
+      owner,
+      filter,
+      options,
+      cursor,
+      limit: MAX_PAGE_SIZE,
+    });
+
+    yield* page.data;
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+}
+
+/**
+ * Collect every owned object matching a query
+ */
+export const getAllOwnedObjects = async (
+  client: SuiClient,
+  owner: string,
+  query: OwnedObjectQuery = {}
+): Promise<SuiObjectResponse[]> => {
+  const objects: SuiObjectResponse[] = [];
+  for await (const object of iterateOwnedObjects(client, owner, query)) {
+    objects.push(object);
+  }
+  return objects;
+};
+
+/**
+ * Every ClaimedPerk the address owns, across all registered perk_manager
+ * versions. Queries one StructType per version, since some fullnodes
+ * silently return nothing for MatchAny filters.
+ */
+export const getOwnedClaimedPerks = async (
+  client: SuiClient,
+  owner: string,
+  query: Omit<OwnedObjectQuery, 'filter'> = {}
+): Promise<SuiObjectResponse[]> => {
+  const perVersion = await Promise.all(getPerkManagerStructTypes('ClaimedPerk').map(type =>
+    getAllOwnedObjects(client, owner, { ...query, filter: { StructType: type } })
+  ));
+  return perVersion.flat();
+};
+
+/**
+ * PerkDefinition ID a ClaimedPerk object points at, if it has one
+ */
+export const getClaimedPerkDefinitionId = (object: SuiObjectResponse): string | null => {
+  const content = object.data?.content;
+  if (!content || content.dataType !== 'moveObject') return null;
+
+  const fields = content.fields as Record<string, unknown>;
+  // Field name changed between package versions
+  const perkDefinitionId = fields.perk_definition_id ?? fields.perkDefinitionId ?? fields.definition_id;
+  return typeof perkDefinitionId === 'string' ? perkDefinitionId : null;
+};
+
+export interface ClaimedPerkUsage {
+  status: string;
+  remainingUses: number | null; // null for perks without a use limit
+}
+
+/**
+ * Status and remaining uses of a ClaimedPerk object
+ */
+export const getClaimedPerkUsage = (object: SuiObjectResponse): ClaimedPerkUsage | null => {
+  const content = object.data?.content;
+  if (!content || content.dataType !== 'moveObject') return null;
+
+  const fields = content.fields as Record<string, unknown>;
+  const remainingUses = readMoveU64(readMoveOption(fields.remaining_uses));
+
+  return {
+    status: typeof fields.status === 'string' ? fields.status : 'ACTIVE',
+    remainingUses: remainingUses === undefined ? null : Number(remainingUses),
+  };
+};
+
+/**
+ * Claim metadata stored on a ClaimedPerk, as the raw key/value pair
+ */
+export const getClaimedPerkMetadata = (object: SuiObjectResponse): { key: string; value: string } | null => {
+  const content = object.data?.content;
+  if (!content || content.dataType !== 'moveObject') return null;
+
+  const fields = content.fields as Record<string, unknown>;
+  return typeof fields.metadata_key === 'string' && typeof fields.metadata_value === 'string'
+    ? { key: fields.metadata_key, value: fields.metadata_value }
+    : null;
+};
@@ -0,0 +1,59 @@
+import { JsonRpcError } from '@mysten/sui/client';
+import type { SuiClient, SuiMoveNormalizedType } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getPerkManagerTransactionPackageId, isPerkManagerPackage } from '../config/sui';
+
+// Redemption calls perk_manager::consume_perk(&mut ClaimedPerk, &Clock) and
+// vouchers are verified by its PerkConsumed { claimed_perk_id } event.
+// Neither is in the repo, so the deployed package's ABI is checked first.
+export type RedemptionSupport = { supported: true } | { supported: false; reason: string };
+
+const UNSUPPORTED_REASON = 'On-chain redemption is not available on this network yet.';
+
+const isStruct = (type: SuiMoveNormalizedType | undefined, module: string, name: string, ownPackage: boolean): boolean => {
+  if (!type || typeof type !== 'object' || !('Struct' in type)) return false;
+  const { address, module: structModule, name: structName } = type.Struct;
+  return structModule === module && structName === name
+    && (ownPackage ? isPerkManagerPackage(address) : normalizeSuiAddress(address) === normalizeSuiAddress('0x2'));
+};
+
+const isReferenceTo = (type: SuiMoveNormalizedType | undefined, mutable: boolean, module: string, name: string, ownPackage: boolean) => {
+  if (!type || typeof type !== 'object') return false;
+  if (mutable) return 'MutableReference' in type && isStruct(type.MutableReference, module, name, ownPackage);
+  return 'Reference' in type && isStruct(type.Reference, module, name, ownPackage);
+};
+
+/**
+ * Check the package can consume perks and emits the event vouchers are
+ * verified with. A missing function or struct means unsupported; RPC
+ * failures throw, so callers can retry.
+ */
+export const checkRedemptionSupport = async (
+  client: SuiClient,
+  packageId = getPerkManagerTransactionPackageId()
+): Promise<RedemptionSupport> => {
+  try {
+    const [consumePerk, perkConsumed] = await Promise.all([
+      client.getNormalizedMoveFunction({ package: packageId, module: 'perk_manager', function: 'consume_perk' }),
+      client.getNormalizedMoveStruct({ package: packageId, module: 'perk_manager', struct: 'PerkConsumed' }),
+    ]);
+
+    // TxContext is passed implicitly
+    const parameters = consumePerk.parameters.filter(parameter => !isReferenceTo(parameter, true, 'tx_context', 'TxContext', false));
+    const signatureMatches = parameters.length === 2
+      && isReferenceTo(parameters[0], true, 'perk_manager', 'ClaimedPerk', true)
+      && isReferenceTo(parameters[1], false, 'clock', 'Clock', false);
+    const eventMatches = perkConsumed.fields.some(field => field.name === 'claimed_perk_id');
+
+    if (!signatureMatches || !eventMatches) {
+      console.warn('perk_manager::consume_perk or PerkConsumed does not have the expected shape - redemption disabled');
+      return { supported: false, reason: UNSUPPORTED_REASON };
+    }
+    return { supported: true };
+  } catch (error) {
+    if (error instanceof JsonRpcError) {
+      return { supported: false, reason: UNSUPPORTED_REASON };
+    }
+    throw error;
+  }
+};
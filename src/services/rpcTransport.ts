@@ -0,0 +1,306 @@
+import {
+  JsonRpcError,
+  SuiClient,
+  SuiHTTPStatusError,
+  SuiHTTPTransport,
+} from '@mysten/sui/client';
+import type {
+  SuiTransport,
+  SuiTransportRequestOptions,
+  SuiTransportSubscribeOptions,
+} from '@mysten/sui/client';
+import { NETWORK_PROFILES, SUI_CONFIG } from '../config/sui';
+import type { SuiNetwork } from '../config/sui';
+import { demoSuiClient } from './demoChain';
+
+export type RpcPolicy = typeof SUI_CONFIG.rpcPolicy;
+
+export interface EndpointHealth {
+  url: string;
+  isActive: boolean; // Endpoint new requests go to first
+  isHealthy: boolean;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number | null; // Skipped until this time after repeated failures
+}
+
+interface EndpointState extends Omit<EndpointHealth, 'isActive' | 'isHealthy'> {
+  transport: SuiHTTPTransport;
+}
+
+class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+  }
+}
+
+// 429s, 5xx responses, timeouts and network failures are worth retrying.
+// JSON-RPC errors come from a healthy node rejecting the request itself.
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof JsonRpcError) return false;
+  if (error instanceof SuiHTTPStatusError) return error.status === 429 || error.status >= 500;
+  if (error instanceof RequestTimeoutError) return true;
+  return error instanceof TypeError; // fetch network failure
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    // Long-lived signals see many retries - don't leave a listener per sleep
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * SuiTransport with retries and failover across several RPC endpoints.
+ *
+ * Requests go to the active endpoint. Retryable failures back off
+ * exponentially with full jitter; after `failuresBeforeFailover` consecutive
+ * failures an endpoint is put on cooldown and the next healthy one becomes
+ * active. At most `maxConcurrentRequests` requests are in flight at once.
+ */
+export class ResilientTransport implements SuiTransport {
+  private endpoints: EndpointState[];
+  private policy: RpcPolicy;
+  private activeIndex = 0;
+  private inFlight = 0;
+  private waiting: (() => void)[] = [];
+  private listeners = new Set<() => void>();
+  private healthSnapshot: EndpointHealth[] | null = null;
+
+  constructor(urls: string[], policy: RpcPolicy) {
+    if (urls.length === 0) {
+      throw new Error('ResilientTransport needs at least one RPC URL');
+    }
+
+    this.policy = policy;
+    this.endpoints = urls.map(url => ({
+      url,
+      transport: new SuiHTTPTransport({ url }),
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      cooldownUntil: null,
+    }));
+  }
+
+  async request<T = unknown>(input: SuiTransportRequestOptions): Promise<T> {
+    await this.acquire();
+    try {
+      return await this.requestWithRetry<T>(input);
+    } finally {
+      this.release();
+    }
+  }
+
+  async subscribe<T = unknown>(input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    return this.endpoints[this.activeIndex]!.transport.subscribe(input);
+  }
+
+  /**
+   * Current health of every endpoint. Returns the same array until
+   * something changes, so it can back useSyncExternalStore.
+   */
+  getHealth(): EndpointHealth[] {
+    if (!this.healthSnapshot) {
+      const now = Date.now();
+      this.healthSnapshot = this.endpoints.map((endpoint, index) => ({
+        url: endpoint.url,
+        isActive: index === this.activeIndex,
+        isHealthy: !endpoint.cooldownUntil || endpoint.cooldownUntil <= now,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        totalRequests: endpoint.totalRequests,
+        totalFailures: endpoint.totalFailures,
+        lastLatencyMs: endpoint.lastLatencyMs,
+        lastError: endpoint.lastError,
+        lastErrorAt: endpoint.lastErrorAt,
+        cooldownUntil: endpoint.cooldownUntil,
+      }));
+    }
+    return this.healthSnapshot;
+  }
+
+  /**
+   * Listen for health changes. Returns an unsubscribe function.
+   */
+  onHealthChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.healthSnapshot = null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.inFlight < this.policy.maxConcurrentRequests) {
+      this.inFlight += 1;
+      return;
+    }
+    // The slot is handed over directly by release()
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight -= 1;
+    }
+  }
+
+  // Active endpoint if it is healthy, otherwise the next one off cooldown.
+  // When every endpoint is cooling down, use the one that recovers first.
+  private pickEndpoint(): number {
+    const now = Date.now();
+    for (let offset = 0; offset < this.endpoints.length; offset++) {
+      const index = (this.activeIndex + offset) % this.endpoints.length;
+      const cooldownUntil = this.endpoints[index]!.cooldownUntil;
+      if (!cooldownUntil || cooldownUntil <= now) return index;
+    }
+
+    return this.endpoints.reduce((best, endpoint, index) =>
+      (endpoint.cooldownUntil ?? 0) < (this.endpoints[best]!.cooldownUntil ?? 0) ? index : best, 0);
+  }
+
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  private async requestWithRetry<T>(input: SuiTransportRequestOptions): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.policy.maxRetries; attempt++) {
+      input.signal?.throwIfAborted();
+
+      const index = this.pickEndpoint();
+      if (index !== this.activeIndex) {
+        this.activeIndex = index;
+        this.notify();
+      }
+
+      try {
+        return await this.send<T>(index, input);
+      } catch (error) {
+        if (input.signal?.aborted) throw error;
+        if (!isRetryable(error)) {
+          // A JSON-RPC error means the node answered, so it is reachable
+          if (error instanceof JsonRpcError) this.recordSuccess(index, null);
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(index, error);
+        if (attempt < this.policy.maxRetries) {
+          await sleep(this.backoffDelay(attempt), input.signal);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async send<T>(index: number, input: SuiTransportRequestOptions): Promise<T> {
+    const endpoint = this.endpoints[index]!;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(input.signal?.reason);
+    input.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.policy.requestTimeoutMs);
+
+    const startedAt = Date.now();
+    endpoint.totalRequests += 1;
+
+    try {
+      const result = await endpoint.transport.request<T>({ ...input, signal: controller.signal });
+      this.recordSuccess(index, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      throw timedOut ? new RequestTimeoutError(endpoint.url, this.policy.requestTimeoutMs) : error;
+    } finally {
+      clearTimeout(timer);
+      input.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private recordSuccess(index: number, latencyMs: number | null) {
+    const endpoint = this.endpoints[index]!;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = null;
+    if (latencyMs !== null) endpoint.lastLatencyMs = latencyMs;
+    this.notify();
+  }
+
+  private recordFailure(index: number, error: unknown) {
+    const endpoint = this.endpoints[index]!;
+    endpoint.consecutiveFailures += 1;
+    endpoint.totalFailures += 1;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    endpoint.lastErrorAt = Date.now();
+
+    // Fail over once an endpoint keeps failing
+    if (endpoint.consecutiveFailures >= this.policy.failuresBeforeFailover) {
+      const cooldownUntil = Date.now() + this.policy.unhealthyCooldownMs;
+      endpoint.cooldownUntil = cooldownUntil;
+      if (this.endpoints.length > 1) {
+        this.activeIndex = (index + 1) % this.endpoints.length;
+      }
+
+      // Report the endpoint healthy again once the cooldown runs out,
+      // unless a later failure extended it
+      setTimeout(() => {
+        if (endpoint.cooldownUntil !== cooldownUntil) return;
+        endpoint.cooldownUntil = null;
+        this.notify();
+      }, this.policy.unhealthyCooldownMs);
+    }
+    this.notify();
+  }
+}
+
+// One transport per network, created on first use, so every client of a
+// network shares one concurrency limit and one view of endpoint health
+const transports = new Map<SuiNetwork, ResilientTransport>();
+const clients = new Map<SuiNetwork, SuiClient>();
+
+export const getRpcTransport = (network: SuiNetwork = SUI_CONFIG.network): ResilientTransport => {
+  let transport = transports.get(network);
+  if (!transport) {
+    transport = new ResilientTransport(NETWORK_PROFILES[network].rpcUrls, SUI_CONFIG.rpcPolicy);
+    transports.set(network, transport);
+  }
+  return transport;
+};
+
+export const getSuiRpcClient = (network: SuiNetwork = SUI_CONFIG.network): SuiClient => {
+  if (SUI_CONFIG.demoMode) return demoSuiClient;
+
+  let client = clients.get(network);
+  if (!client) {
+    client = new SuiClient({ transport: getRpcTransport(network) });
+    clients.set(network, client);
+  }
+  return client;
+};
@@ -1,67 +1,36 @@
 import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { SUI_CONFIG, isUsingRealContracts } from '../config/sui';
-
-import type { ClaimedPerk } from '../types/index';
-
-class SimpleCache {
-  private cache = new Map<string, { data: any; timestamp: number }>();
-  private readonly TTL = 60000; // 60 seconds
-
-  async getOrFetch<T>(key: string, fetchFn: () => Promise<T>): Promise<T> {
-    const cached = this.cache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.TTL) {
-      return cached.data;
-    }
-
-    const data = await fetchFn();
-    this.cache.set(key, { data, timestamp: Date.now() });
-    return data;
-  }
-
-  clear() {
-    this.cache.clear();
-  }
-}
-
-// Rate limiting helper
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 100; // 100ms between requests
-
-async function rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-  }
-  
-  lastRequestTime = Date.now();
-  return requestFn();
-}
+import {
+  SUI_CONFIG,
+  isUsingRealContracts,
+  getPerkManagerReadPackageIds,
+  getPerkManagerTransactionPackageId,
+} from '../config/sui';
+import { getObjectLoader } from './objectLoader';
+import { getOwnedClaimedPerks } from './ownedObjects';
+import { catalogCache } from './catalogCache';
+import { getRpcTransport, getSuiRpcClient } from './rpcTransport';
+import { parsePerkDefinition } from '../utils/perkDefinition';
+
+import type { ClaimedPerk, PerkDefinitionModel } from '../types/index';
 
 export class SuiService {
-  private client: SuiClient;
-  private cache = new SimpleCache();
-
-  constructor() {
-    // Initializing SuiClient with config
-
-    // Initialize the SuiClient with proper configuration
-    this.client = new SuiClient({
-      url: SUI_CONFIG.rpcUrl,
-    });
+  // Shares the failover transport (retries, concurrency limit) with the app,
+  // and follows network switches
+  private get client(): SuiClient {
+    return getSuiRpcClient();
   }
 
   /**
    * Main method to get claimed perks for a user
    */
   async getClaimedPerks(userAddress: string): Promise<ClaimedPerk[]> {
-    const cacheKey = `user_claimed_perks_${userAddress}`;
+    const cacheKey = `claimedPerks:${userAddress}`;
     
     try {
       // Fetching ClaimedPerks for user
       
-      return await this.cache.getOrFetch(
+      return await catalogCache.getOrFetch(
+        'ownedObjects',
         cacheKey,
         async () => {
           if (!isUsingRealContracts()) {
@@ -94,57 +63,43 @@ export class SuiService {
   private async fetchClaimedPerksFromObjects(userAddress: string): Promise<ClaimedPerk[]> {
     // Console log removed
     
-    const packageId = SUI_CONFIG.packageIds.perkManager;
-    const claimedPerkType = SUI_CONFIG.types.claimedPerk(packageId);
-    
-    // Console log removed
-    
     try {
-      const response = await rateLimitedRequest(() =>
-        this.client.getOwnedObjects({
-          owner: userAddress,
-          filter: { 
-            StructType: claimedPerkType 
-          },
-          options: {
-            showContent: true,
-            showType: true,
-            showDisplay: true,
-          },
-        })
-      );
+      // Every page, across every package version ClaimedPerks were created under
+      const ownedObjects = await getOwnedClaimedPerks(this.client, userAddress, {
+        options: {
+          showContent: true,
+          showType: true,
+          showDisplay: true,
+        },
+      });
 
       // Console log removed
 
-      if (response.data.length === 0) {
+      if (ownedObjects.length === 0) {
         return [];
       }
 
-      // Process the objects and convert to ClaimedPerk format
-      const claimedPerks: ClaimedPerk[] = [];
-      
-      for (const objectResponse of response.data) {
+      // Process the objects in parallel so their definition lookups share a batch
+      const claimedPerks = await Promise.all(ownedObjects.map(async (objectResponse) => {
         if (objectResponse.error) {
           // Console log removed
-          continue;
+          return null;
         }
 
         if (!objectResponse.data) {
           // Console log removed
-          continue;
+          return null;
         }
 
         try {
-          const perk = await this.parseClaimedPerkObject(objectResponse.data);
-          if (perk) {
-            claimedPerks.push(perk);
-          }
-        } catch (parseError) {
+          return await this.parseClaimedPerkObject(objectResponse.data);
+        } catch {
           // Console log removed
+          return null;
         }
-      }
+      }));
 
-      return claimedPerks;
+      return claimedPerks.filter((perk): perk is ClaimedPerk => perk !== null);
     } catch (error) {
       // Console log removed
       throw error;
@@ -188,16 +143,21 @@ export class SuiService {
 
       return {
         objectId: objectData.objectId,
+        perkDefinitionId,
+        owner,
+        claimTimestamp: Number(claimTimestamp) || 0,
+        remainingUses: remainingUses !== undefined && remainingUses !== null ? Number(remainingUses) : undefined,
         name: perkDefinition.name,
         description: perkDefinition.description,
-        category: perkDefinition.perk_type,
-        value: perkDefinition.usdc_price,
+        category: perkDefinition.perkType,
+        value: Number(perkDefinition.usdcPrice),
         status: this.parseStatus(status),
         claimedAt: this.formatTimestamp(claimTimestamp),
-        icon: this.getIconForCategory(perkDefinition.perk_type),
-        perkType: perkDefinition.perk_type,
-        currentAlphaPointsPrice: perkDefinition.current_alpha_points_price,
-        usdcPrice: perkDefinition.usdc_price,
+        icon: perkDefinition.icon ?? this.getIconForCategory(perkDefinition.perkType),
+        perkType: perkDefinition.perkType,
+        currentAlphaPointsPrice: perkDefinition.alphaPointsPrice,
+        usdcPrice: Number(perkDefinition.usdcPrice),
+        tags: perkDefinition.tags,
       };
     } catch (error) {
       // Console log removed
@@ -208,66 +168,24 @@ export class SuiService {
   /**
    * Fetch a PerkDefinition object by its ID
    */
-  private async fetchPerkDefinition(perkDefinitionId: string): Promise<any | null> {
+  private async fetchPerkDefinition(perkDefinitionId: string): Promise<PerkDefinitionModel | null> {
     try {
-      // Console log removed
-      
-      const response = await rateLimitedRequest(() =>
-        this.client.getObject({
-          id: perkDefinitionId,
-          options: {
-            showContent: true,
-            showType: true,
-          },
-        })
-      );
+      // Batched with any other definition lookups issued in the same tick
+      const response = await getObjectLoader(this.client).load(perkDefinitionId);
+      const parsed = parsePerkDefinition(response);
 
-      if (!response.data?.content || response.data.content.dataType !== 'moveObject') {
-        // Console log removed
+      if (!parsed.ok) {
+        // Malformed PerkDefinition - skip it
         return null;
       }
 
-      const fields = response.data.content.fields;
-      // Console log removed
-
-      // Parse the PerkDefinition fields
-      return {
-        objectId: response.data.objectId,
-        name: fields.name || 'Unknown Perk',
-        description: fields.description || 'No description available',
-        perk_type: fields.perk_type || 'Unknown',
-        usdc_price: this.parseValue(fields.usdc_price || 0),
-        current_alpha_points_price: this.parseValue(fields.current_alpha_points_price || 0),
-        creator_partner_cap_id: fields.creator_partner_cap_id,
-        is_active: fields.is_active,
-        total_claims_count: this.parseValue(fields.total_claims_count || 0),
-        max_claims: fields.max_claims,
-        max_uses_per_claim: fields.max_uses_per_claim,
-        expiration_timestamp_ms: fields.expiration_timestamp_ms,
-        tags: fields.tags || [],
-      };
+      return parsed.perk;
     } catch (error) {
       // Console log removed
       return null;
     }
   }
 
-  /**
-   * Parse value handling different formats (strings, numbers, big numbers)
-   */
-  private parseValue(value: any): number {
-    if (typeof value === 'number') return value;
-    if (typeof value === 'string') {
-      const parsed = parseFloat(value);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    if (typeof value === 'object' && value !== null) {
-      // Handle BigInt or similar structures
-      return parseInt(value.toString()) || 0;
-    }
-    return 0;
-  }
-
   /**
    * Parse status from various formats
    */
@@ -330,7 +248,7 @@ export class SuiService {
         claimedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
         icon: '🔑',
         perkType: 'Access',
-        currentAlphaPointsPrice: 0,
+        currentAlphaPointsPrice: 0n,
         usdcPrice: 0,
       },
       {
@@ -343,7 +261,7 @@ export class SuiService {
         claimedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
         icon: '🎁',
         perkType: 'Bonus',
-        currentAlphaPointsPrice: 0,
+        currentAlphaPointsPrice: 0n,
         usdcPrice: 0,
       },
     ];
@@ -354,7 +272,7 @@ export class SuiService {
    */
   async refreshPerkData(userAddress?: string): Promise<ClaimedPerk[]> {
     // Console log removed');
-    this.cache.clear();
+    await catalogCache.invalidate('ownedObjects');
     if (userAddress) {
       return this.getClaimedPerks(userAddress);
     }
@@ -413,17 +331,24 @@ export class SuiService {
   }
 
   /**
-   * Get the current RPC URL being used
+   * Get the RPC URL requests currently go to
    */
   getRpcUrl(): string {
-    return SUI_CONFIG.rpcUrl;
+    return getRpcTransport().getHealth().find(endpoint => endpoint.isActive)?.url ?? SUI_CONFIG.rpcUrl;
   }
 
   /**
-   * Get the package ID being used
+   * Get the package ID used for transactions
    */
   getPackageId(): string {
-    return SUI_CONFIG.packageIds.perkManager;
+    return getPerkManagerTransactionPackageId();
+  }
+
+  /**
+   * Get every perk_manager package version read from
+   */
+  getReadPackageIds(): string[] {
+    return getPerkManagerReadPackageIds();
   }
 }
 
@@ -0,0 +1,67 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+import { isPerkManagerType } from '../config/sui';
+import { checkRedemptionSupport } from './redemptionSupport';
+import { verifyVoucherCode } from '../utils/voucherCode';
+import type { VoucherPayload } from '../utils/voucherCode';
+
+export type VoucherStatus = 'valid' | 'malformed' | 'bad_signature' | 'expired' | 'not_consumed' | 'unsupported' | 'chain_error';
+
+export interface VoucherVerification {
+  status: VoucherStatus;
+  payload?: VoucherPayload;
+  message: string;
+}
+
+const STATUS_MESSAGES: Record<VoucherStatus, string> = {
+  valid: 'Valid voucher - the perk was redeemed on-chain.',
+  malformed: 'This is not a voucher code.',
+  bad_signature: 'The signature does not match - this code was not issued with this key.',
+  expired: 'This voucher has expired.',
+  not_consumed: 'The transaction in this code did not redeem this perk.',
+  unsupported: "This network's perk contract has no on-chain redemption, so vouchers can't be checked against it.",
+  chain_error: 'Could not check the chain. Try again.',
+};
+
+/**
+ * Whether a transaction succeeded and consumed the voucher's ClaimedPerk
+ */
+export const isVoucherConsumed = async (client: SuiClient, payload: VoucherPayload): Promise<boolean> => {
+  const transaction = await client.getTransactionBlock({
+    digest: payload.digest,
+    options: { showEffects: true, showEvents: true },
+  });
+  if (transaction.effects?.status.status !== 'success') return false;
+
+  const claimedPerkId = normalizeSuiObjectId(payload.claimedPerkId);
+  return (transaction.events ?? []).some(event => {
+    const fields = (event.parsedJson ?? {}) as Record<string, unknown>;
+    return isPerkManagerType(event.type, 'PerkConsumed')
+      && typeof fields.claimed_perk_id === 'string'
+      && normalizeSuiObjectId(fields.claimed_perk_id) === claimedPerkId;
+  });
+};
+
+/**
+ * Verify a voucher code: signature and expiry offline, then the consume
+ * transaction on-chain
+ */
+export const verifyVoucher = async (client: SuiClient, code: string, publicKey: string): Promise<VoucherVerification> => {
+  const check = await verifyVoucherCode(code, publicKey);
+  if (!check.valid) {
+    return { status: check.reason, payload: check.payload, message: STATUS_MESSAGES[check.reason] };
+  }
+
+  let status: VoucherStatus;
+  try {
+    if (!(await checkRedemptionSupport(client)).supported) {
+      status = 'unsupported';
+    } else {
+      status = await isVoucherConsumed(client, check.payload) ? 'valid' : 'not_consumed';
+    }
+  } catch (error) {
+    // An unknown digest is a forged or wrong-network code, not an outage
+    status = error instanceof Error && /could not find/i.test(error.message) ? 'not_consumed' : 'chain_error';
+  }
+  return { status, payload: check.payload, message: STATUS_MESSAGES[status] };
+};
@@ -10,7 +10,8 @@ export interface FilterState {
   showExpired: boolean;
 }
 
-import type { PerkDefinition } from '../types/index';
+import type { PerkDefinition, PointsAmount } from '../types/index';
+import { canAffordPoints, comparePoints } from '../utils/points';
 
 export interface PerkData extends PerkDefinition {
   // Additional store-specific fields
@@ -18,7 +19,7 @@ export interface PerkData extends PerkDefinition {
   expiresAt?: Date;
   requiresMetadata?: boolean;
   createdAt?: Date;
-  price?: number; // Alias for currentAlphaPointsPrice
+  price?: PointsAmount; // Alias for currentAlphaPointsPrice
   company?: string; // Derived from creator info
 }
 
@@ -30,12 +31,18 @@ export interface UserPreferences {
   gridView: 'compact' | 'comfortable' | 'spacious';
 }
 
+export interface CartItem {
+  perkId: string;
+  metadataValues?: Record<string, string>; // Claim data collected when the perk was added
+}
+
 interface MarketplaceState {
   // Data
   perks: PerkData[];
   favoritePerks: Set<string>;
   claimedPerks: Set<string>;
-  userBalance: number;
+  userBalance: PointsAmount;
+  cart: CartItem[];
   
   // UI State
   filters: FilterState;
@@ -64,9 +71,13 @@ interface MarketplaceState {
   setFilterModalOpen: (open: boolean) => void;
   setSelectedPerk: (perkId: string | null) => void;
   
-  setUserBalance: (balance: number) => void;
+  setUserBalance: (balance: PointsAmount) => void;
   addClaimedPerk: (perkId: string) => void;
   
+  addToCart: (perkId: string, metadataValues?: Record<string, string>) => void;
+  removeFromCart: (perkId: string) => void;
+  clearCart: () => void;
+  
   setUserPreferences: (preferences: Partial<UserPreferences>) => void;
   
   setLoading: (loading: boolean) => void;
@@ -78,6 +89,7 @@ interface MarketplaceState {
   getAvailableTags: () => string[];
   getFavoritePerks: () => PerkData[];
   canAffordPerk: (perkId: string) => boolean;
+  isInCart: (perkId: string) => boolean;
   
   // Cache Management
   shouldRefreshData: () => boolean;
@@ -112,7 +124,8 @@ export const useMarketplaceStore = create<MarketplaceState>()(
         perks: [],
         favoritePerks: new Set(),
         claimedPerks: new Set(),
-        userBalance: 0,
+        userBalance: 0n,
+        cart: [],
         
         filters: defaultFilters,
         isFilterModalOpen: false,
@@ -172,6 +185,23 @@ export const useMarketplaceStore = create<MarketplaceState>()(
           state.claimedPerks.add(perkId);
         }),
         
+        // A perk is claimed once per checkout, so adding it again replaces
+        // its claim data
+        addToCart: (perkId, metadataValues) => set((state) => {
+          state.cart = [
+            ...state.cart.filter(item => item.perkId !== perkId),
+            { perkId, metadataValues },
+          ];
+        }),
+        
+        removeFromCart: (perkId) => set((state) => {
+          state.cart = state.cart.filter(item => item.perkId !== perkId);
+        }),
+        
+        clearCart: () => set((state) => {
+          state.cart = [];
+        }),
+        
         setUserPreferences: (preferences) => set((state) => {
           state.userPreferences = { ...state.userPreferences, ...preferences };
         }),
@@ -230,9 +260,9 @@ export const useMarketplaceStore = create<MarketplaceState>()(
               case 'alphabetical':
                 return a.name.localeCompare(b.name);
               case 'price-low':
-                return a.price - b.price;
+                return comparePoints(a.price ?? 0n, b.price ?? 0n);
               case 'price-high':
-                return b.price - a.price;
+                return comparePoints(b.price ?? 0n, a.price ?? 0n);
               case 'claims':
                 return b.claimCount - a.claimCount;
               case 'newest':
@@ -261,9 +291,11 @@ export const useMarketplaceStore = create<MarketplaceState>()(
         canAffordPerk: (perkId) => {
           const state = get();
           const perk = state.perks.find(p => p.id === perkId);
-          return perk ? state.userBalance >= perk.price : false;
+          return perk ? canAffordPoints(state.userBalance, perk.price ?? 0n) : false;
         },
         
+        isInCart: (perkId) => get().cart.some(item => item.perkId === perkId),
+        
         // Cache Management
         shouldRefreshData: () => {
           const state = get();
@@ -292,9 +324,11 @@ export const useMarketplaceStore = create<MarketplaceState>()(
       })),
       {
         name: 'marketplace-store',
+        // Only user preferences persist here - catalog and owned-object
+        // snapshots are cached per network in services/catalogCache. The
+        // cart isn't persisted since it can hold personal claim data.
         partialize: (state) => ({
           favoritePerks: Array.from(state.favoritePerks),
-          claimedPerks: Array.from(state.claimedPerks),
           userPreferences: state.userPreferences,
           filters: {
             ...state.filters,
@@ -323,4 +357,5 @@ export const useAvailableTags = () => useMarketplaceStore(state => state.getAvai
 export const useFavoritePerks = () => useMarketplaceStore(state => state.getFavoritePerks());
 export const useUserBalance = () => useMarketplaceStore(state => state.userBalance);
 export const useFilters = () => useMarketplaceStore(state => state.filters);
+export const useCart = () => useMarketplaceStore(state => state.cart);
 export const useUserPreferences = () => useMarketplaceStore(state => state.userPreferences); 
\ No newline at end of file
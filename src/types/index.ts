@@ -17,6 +17,28 @@ export interface ConnectionStatus {
   };
 }
 
+// Data a user submits with a claim (claim_perk_with_metadata_by_user)
+export type ClaimMetadataFieldType = 'discord' | 'email' | 'wallet' | 'text';
+
+// How a value is protected on-chain: keyed hash, commitment the user can
+// reveal later, or encryption to the partner
+export type ClaimMetadataPrivacy = 'hash' | 'commit' | 'encrypt';
+
+export interface ClaimMetadataField {
+  key: string; // Metadata key stored on the ClaimedPerk
+  label: string;
+  type: ClaimMetadataFieldType;
+  required?: boolean; // Default: true
+  placeholder?: string;
+  pattern?: string; // Extra validation for text fields (regex source)
+  privacy?: ClaimMetadataPrivacy; // Default: stored as entered
+  encryptionKey?: string; // Partner public key for 'encrypt' (see utils/metadataCrypto)
+}
+
+// Alpha Points balances and prices are u64 on-chain and stay bigint until
+// they are formatted for display (see utils/points and utils/format)
+export type PointsAmount = bigint;
+
 // Updated to match smart contract ClaimedPerk structure
 export interface ClaimedPerk {
   objectId: string; // The actual object ID on Sui
@@ -33,7 +55,7 @@ export interface ClaimedPerk {
   icon?: string; // We'll derive this from perk_type or metadata
   perkType: string;
   usdcPrice: number;
-  currentAlphaPointsPrice: number;
+  currentAlphaPointsPrice: PointsAmount;
   tags: string[];
   
   // Additional fields for service compatibility
@@ -42,7 +64,163 @@ export interface ClaimedPerk {
   claimedAt?: string; // Formatted timestamp
 }
 
-// Unified PerkDefinition interface that works across the entire app
+// How a claimed perk is fulfilled when the user redeems it
+export type RedemptionType =
+  | 'voucher_code'      // Generate a code for external use
+  | 'digital_delivery'  // Deliver digital content immediately
+  | 'service_booking'   // Book a service/appointment
+  | 'membership_access' // Grant access to exclusive content
+  | 'physical_claim';   // Claim physical goods
+
+// A ClaimedPerk in the redemption center, with its definition's details
+export interface OwnedPerk {
+  id: string; // ClaimedPerk object ID
+  perkDefinitionId: string;
+  partnerCapId: string;
+  name: string;
+  description: string;
+  perkType: string;
+  icon: string;
+  status: string;
+  remainingUses: number | null;
+  claimTimestamp: number;
+  tags: string[];
+  redemptionType: RedemptionType;
+  metadata: Record<string, string>; // Claim metadata as stored on-chain
+}
+
+// What a fulfillment provider hands back to the user
+export interface RedemptionResult {
+  success: boolean;
+  type: RedemptionType;
+  data: {
+    code?: string;
+    downloadUrl?: string;
+    bookingId?: string;
+    accessToken?: string;
+    claimTicket?: string;
+    instructions?: string;
+    expiresAt?: number;
+  };
+  message: string;
+}
+
+// Everything a fulfillment provider gets about a consumed perk
+export interface RedemptionContext {
+  claimedPerk: OwnedPerk; // State after the consume transaction
+  wallet: string;
+  digest: string; // Consume transaction
+  metadata: Record<string, string>;
+}
+
+export type RedemptionOpportunityDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+// Which owned perks a requirement counts - every field that is set must match
+export interface PerkMatcher {
+  perkType?: RedemptionType;
+  perkDefinitionId?: string;
+  partnerCapId?: string; // Issuing partner
+  tags?: string[]; // Perk has all of these
+  minRemainingUses?: number; // Unlimited-use perks always qualify
+  minClaimAgeDays?: number; // Held at least this long
+}
+
+// Own `quantity` active perks that match
+export interface RedemptionOpportunityRequirement extends PerkMatcher {
+  perkName: string;
+  quantity: number;
+  description: string;
+}
+
+// Have at least this many available Alpha Points
+export interface PointsBalanceRequirement {
+  minPoints: number;
+  description: string;
+}
+
+// A requirement, or a group of them (see utils/opportunityRequirements)
+export type RequirementExpression =
+  | RedemptionOpportunityRequirement
+  | PointsBalanceRequirement
+  | { allOf: RequirementExpression[]; description?: string }
+  | { anyOf: RequirementExpression[]; description?: string }
+  | { not: RequirementExpression; description: string };
+
+export interface RedemptionOpportunityReward {
+  label: string; // e.g. "Professional Service"
+  description: string;
+  redemptionType: RedemptionType; // How the reward is delivered
+  estimatedValue?: string;
+  timeToRedeem?: string;
+  validForDays?: number; // Lifetime of the issued reward
+}
+
+// A redemption opportunity as brands write it (see config/redemptionOpportunities)
+export interface RedemptionOpportunityConfig {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  difficulty: RedemptionOpportunityDifficulty;
+  requirements: RequirementExpression[]; // All must be met
+  reward: RedemptionOpportunityReward;
+  schedule?: {
+    startsAt?: string; // ISO 8601; open immediately when unset
+    endsAt?: string; // ISO 8601; open indefinitely when unset
+  };
+  perUserLimit?: number; // Redemptions per wallet; unlimited when unset
+}
+
+// A validated opportunity, with its schedule in ms
+export interface RedemptionOpportunity extends Omit<RedemptionOpportunityConfig, 'schedule' | 'perUserLimit'> {
+  startsAt: number | null;
+  endsAt: number | null;
+  perUserLimit: number | null;
+}
+
+// Everything a fulfillment provider gets about a redeemed opportunity
+export interface OpportunityRedemptionContext {
+  opportunity: RedemptionOpportunity;
+  wallet: string;
+  ownedPerkIds: string[]; // Active ClaimedPerks, for the backend to re-check on-chain
+}
+
+export type PerkDefinitionStatus = 'ACTIVE' | 'INACTIVE' | 'EXPIRED' | 'SOLD_OUT';
+
+// Canonical PerkDefinition parsed from Move content (see utils/perkDefinition)
+export interface PerkDefinitionModel {
+  objectId: string;
+  objectType?: string;
+
+  name: string;
+  description: string;
+  perkType: string;
+  creatorPartnerCapId: string;
+
+  // u64 values stay bigint so large amounts never lose precision
+  usdcPrice: bigint;
+  alphaPointsPrice: bigint;
+  lastPriceUpdateTimestampMs: bigint;
+  totalClaimsCount: bigint;
+  maxClaims: bigint | null;
+  maxUsesPerClaim: bigint | null;
+  expirationTimestampMs: bigint | null;
+
+  isActive: boolean;
+  generatesUniqueClaimMetadata: boolean;
+  status: PerkDefinitionStatus; // Derived at parse time
+
+  tags: string[];
+  tagMetadataId: string | null;
+  definitionMetadataId: string | null;
+  icon: string | null;
+
+  partnerSharePercentage: number;
+  platformSharePercentage: number;
+}
+
+// Unified PerkDefinition interface that works across the entire app.
+// Build it from a PerkDefinitionModel with toLegacyPerkDefinition.
 export interface PerkDefinition {
   // Core identification
   id: string; // Also available as objectId for compatibility
@@ -61,8 +239,8 @@ export interface PerkDefinition {
   // Pricing
   usdc_price: number; // snake_case for API compatibility
   usdcPrice: number; // camelCase for UI compatibility
-  current_alpha_points_price: number; // snake_case for API compatibility
-  currentAlphaPointsPrice: number; // camelCase for UI compatibility
+  current_alpha_points_price: PointsAmount; // snake_case for API compatibility
+  currentAlphaPointsPrice: PointsAmount; // camelCase for UI compatibility
   
   // Metadata
   last_price_update_timestamp_ms?: number; // snake_case for API compatibility
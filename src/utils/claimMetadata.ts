@@ -0,0 +1,204 @@
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { BRAND_CONFIG } from '../config/brand';
+import type { ClaimMetadataField, PerkDefinition } from '../types/index';
+import { perkRequiresDiscordMetadata, perkRequiresMetadata } from './transactions';
+import { commitMetadataValue, encryptMetadataValue, hmacMetadataValue } from './metadataCrypto';
+
+// Key used when several fields are submitted together as one JSON value
+export const COMBINED_METADATA_KEY = 'claim_metadata';
+
+// Salt for hashed fields. Required for privacy: "hash" - with a public key
+// anyone could recompute the hash of a short value like a Discord ID.
+const METADATA_SALT: string | undefined = import.meta.env.VITE_METADATA_SALT;
+
+// Partner public key for encrypted fields without their own encryptionKey
+const METADATA_ENCRYPTION_KEY: string | undefined = import.meta.env.VITE_METADATA_ENCRYPTION_KEY;
+
+// Encrypted to the partner when a store key is set, otherwise committed so
+// the ID stays private until the user reveals it
+const DISCORD_FIELD: ClaimMetadataField = {
+  key: 'discord_id',
+  label: 'Discord User ID',
+  type: 'discord',
+  privacy: METADATA_ENCRYPTION_KEY ? 'encrypt' : 'commit',
+};
+
+if (!METADATA_SALT) {
+  const hashedFields = Object.values(BRAND_CONFIG.perks.claimMetadataFields ?? {})
+    .flat()
+    .filter(field => field.privacy === 'hash');
+  if (hashedFields.length > 0) {
+    console.warn(`VITE_METADATA_SALT is not set - perks collecting ${hashedFields.map(field => field.key).join(', ')} cannot be claimed`);
+  }
+}
+
+const DEFAULT_FIELD: ClaimMetadataField = {
+  key: 'claim_info',
+  label: 'Claim details',
+  type: 'text',
+  placeholder: 'Information the partner needs to fulfil this perk',
+};
+
+/**
+ * Fields to collect before claiming a perk. Empty when the perk claims
+ * without metadata.
+ */
+export const getPerkMetadataFields = (perk: PerkDefinition): ClaimMetadataField[] => {
+  const configured = BRAND_CONFIG.perks.claimMetadataFields ?? {};
+  const byId = configured[perk.id];
+  if (byId) return byId;
+
+  const byTag = perk.tags?.map(tag => configured[tag]).find(fields => fields !== undefined);
+  if (byTag) return byTag;
+
+  if (perkRequiresDiscordMetadata(perk)) return [DISCORD_FIELD];
+  if (perkRequiresMetadata(perk)) return [DEFAULT_FIELD];
+  return [];
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DISCORD_ID_PATTERN = /^\d{17,20}$/; // Discord snowflake
+
+/**
+ * Validate one field value. Returns an error message, or null when valid.
+ */
+export const validateMetadataField = (field: ClaimMetadataField, value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return field.required === false ? null : `${field.label} is required`;
+  }
+
+  switch (field.type) {
+    case 'discord':
+      return DISCORD_ID_PATTERN.test(trimmed) ? null : 'Enter a numeric Discord user ID';
+    case 'email':
+      return EMAIL_PATTERN.test(trimmed) ? null : 'Enter a valid email address';
+    case 'wallet':
+      return isValidSuiAddress(trimmed) ? null : 'Enter a valid Sui address';
+    case 'text':
+      if (field.pattern && !new RegExp(field.pattern).test(trimmed)) {
+        return `${field.label} is not in the expected format`;
+      }
+      return null;
+  }
+};
+
+const normalizeValue = (field: ClaimMetadataField, value: string): string => {
+  const trimmed = value.trim();
+  if (field.type === 'wallet') return normalizeSuiAddress(trimmed);
+  if (field.type === 'email') return trimmed.toLowerCase();
+  return trimmed;
+};
+
+export interface EncodedClaimMetadata {
+  key: string;
+  value: string;
+  revealCodes?: Record<string, string>; // Commitment nonces by field key - the user must keep these
+}
+
+const protectValue = async (
+  field: ClaimMetadataField,
+  value: string
+): Promise<{ value: string; revealCode?: string }> => {
+  switch (field.privacy) {
+    case 'hash':
+      if (!METADATA_SALT) {
+        throw new Error(`${field.label} is set to be hashed, but VITE_METADATA_SALT is not configured`);
+      }
+      return { value: await hmacMetadataValue(field.key, value, METADATA_SALT) };
+    case 'commit': {
+      const { commitment, nonce } = await commitMetadataValue(field.key, value);
+      return { value: commitment, revealCode: nonce };
+    }
+    case 'encrypt': {
+      const publicKey = field.encryptionKey || METADATA_ENCRYPTION_KEY;
+      if (!publicKey) {
+        throw new Error(`No encryption key configured for ${field.label}`);
+      }
+      return { value: await encryptMetadataValue(field.key, value, publicKey) };
+    }
+    default:
+      return { value };
+  }
+};
+
+/**
+ * Turn collected values into the key/value pair stored on-chain. A single
+ * field is stored under its own key; several are combined into one JSON
+ * value. Fields with a `privacy` mode are hashed, committed or encrypted
+ * first (see utils/metadataCrypto).
+ */
+export const encodeClaimMetadata = async (
+  fields: ClaimMetadataField[],
+  values: Record<string, string>
+): Promise<EncodedClaimMetadata> => {
+  const revealCodes: Record<string, string> = {};
+  const encoded = await Promise.all(fields
+    .filter(field => (values[field.key] ?? '').trim())
+    .map(async field => {
+      const protectedValue = await protectValue(field, normalizeValue(field, values[field.key]!));
+      if (protectedValue.revealCode) revealCodes[field.key] = protectedValue.revealCode;
+      return [field.key, protectedValue.value] as const;
+    }));
+
+  const reveal = Object.keys(revealCodes).length > 0 ? { revealCodes } : {};
+  if (encoded.length === 1) {
+    const [key, value] = encoded[0]!;
+    return { key, value, ...reveal };
+  }
+  return { key: COMBINED_METADATA_KEY, value: JSON.stringify(Object.fromEntries(encoded)), ...reveal };
+};
+
+/**
+ * Split a stored key/value pair back into values by field key - the
+ * inverse of encodeClaimMetadata. Protected values stay protected.
+ */
+export const decodeClaimMetadata = (key: string, value: string): Record<string, string> => {
+  if (key !== COMBINED_METADATA_KEY) return { [key]: value };
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    }
+  } catch {
+    // Not JSON - keep it as one value
+  }
+  return { [key]: value };
+};
+
+const REVEAL_CODES_KEY = 'claim_metadata_reveal_codes';
+
+export interface StoredRevealCode {
+  perkId: string;
+  digest: string; // Claim transaction
+  fieldKey: string;
+  nonce: string;
+  savedAt: number;
+}
+
+/**
+ * Keep commitment nonces in this browser so the user can reveal them later
+ */
+export const saveRevealCodes = (perkId: string, digest: string, revealCodes: Record<string, string>) => {
+  try {
+    const existing = getRevealCodes();
+    const added = Object.entries(revealCodes).map(([fieldKey, nonce]) => ({
+      perkId, digest, fieldKey, nonce, savedAt: Date.now(),
+    }));
+    localStorage.setItem(REVEAL_CODES_KEY, JSON.stringify([...existing, ...added]));
+  } catch {
+    // localStorage unavailable - the user still saw the codes once
+  }
+};
+
+/**
+ * Reveal codes saved by earlier claims
+ */
+export const getRevealCodes = (): StoredRevealCode[] => {
+  try {
+    const stored = localStorage.getItem(REVEAL_CODES_KEY);
+    return stored ? (JSON.parse(stored) as StoredRevealCode[]) : [];
+  } catch {
+    return [];
+  }
+};
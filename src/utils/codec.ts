@@ -0,0 +1,83 @@
+// Codec for Move unsigned integers
+// u64/u128 values always decode to bigint - converting to number is left to
+// display code, since anything above 2^53 loses precision.
+
+export const MAX_U64 = (1n << 64n) - 1n;
+export const MAX_U128 = (1n << 128n) - 1n;
+
+type ByteInput = ArrayLike<number>;
+
+const toBytes = (input: ByteInput, expectedLength: number, typeName: string): Uint8Array => {
+  const bytes = input instanceof Uint8Array ? input : Uint8Array.from(input);
+  if (bytes.length !== expectedLength) {
+    throw new Error(`Invalid byte length for ${typeName}: expected ${expectedLength}, got ${bytes.length}`);
+  }
+  return bytes;
+};
+
+// BCS integers are little-endian
+const decodeLittleEndian = (bytes: Uint8Array): bigint =>
+  bytes.reduceRight((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+const encodeLittleEndian = (value: bigint, length: number, max: bigint, typeName: string): Uint8Array => {
+  if (value < 0n || value > max) {
+    throw new Error(`${value} is out of range for ${typeName}`);
+  }
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return bytes;
+};
+
+/**
+ * Decode a BCS-encoded u64
+ */
+export const decodeU64 = (input: ByteInput): bigint => decodeLittleEndian(toBytes(input, 8, 'u64'));
+
+/**
+ * Decode a BCS-encoded u128
+ */
+export const decodeU128 = (input: ByteInput): bigint => decodeLittleEndian(toBytes(input, 16, 'u128'));
+
+/**
+ * Encode a u64 as BCS bytes
+ */
+export const encodeU64 = (value: bigint): Uint8Array => encodeLittleEndian(value, 8, MAX_U64, 'u64');
+
+/**
+ * Encode a u128 as BCS bytes
+ */
+export const encodeU128 = (value: bigint): Uint8Array => encodeLittleEndian(value, 16, MAX_U128, 'u128');
+
+/**
+ * Read an unsigned integer as rendered in Move JSON (decimal string, or a
+ * number for small values). Returns undefined when it isn't a valid u128.
+ */
+export const parseUnsigned = (value: unknown, max = MAX_U128): bigint | undefined => {
+  let parsed: bigint | undefined;
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'number') {
+    parsed = Number.isSafeInteger(value) ? BigInt(value) : undefined;
+  } else if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+    parsed = BigInt(value.trim());
+  }
+  return parsed !== undefined && parsed >= 0n && parsed <= max ? parsed : undefined;
+};
+
+/**
+ * Decode a u64 devInspect return value ([bytes, type] pair)
+ */
+export const decodeU64ReturnValue = (returnValue: [number[], string] | undefined): bigint => {
+  if (!returnValue) {
+    throw new Error('Missing u64 return value');
+  }
+  const [bytes, type] = returnValue;
+  if (type !== 'u64') {
+    throw new Error(`Unexpected return type: expected u64, got ${type}`);
+  }
+  return decodeU64(bytes);
+};
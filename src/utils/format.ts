@@ -1,17 +1,40 @@
+import type { PointsAmount } from '../types/index';
+import { toPointsAmount } from './points';
+
+// Whole points as bigint; fractional numbers are truncated
+const toWholePoints = (points: PointsAmount | number | string): PointsAmount =>
+  typeof points === 'number' ? toPointsAmount(Math.trunc(points)) : toPointsAmount(points);
+
+// Conversion used until the oracle rate has loaded (see hooks/useUsdRate)
+export const DEFAULT_POINTS_PER_USD = 1000;
+
+// Oracle rates can be fractional, so they are scaled to an integer
+const RATE_SCALE = 1_000_000;
+
+// USD cents for an amount of points, computed without leaving bigint
+const pointsToUSDCents = (points: PointsAmount | number | string, rate: number): number => {
+  const scaledRate = BigInt(Math.round(rate * RATE_SCALE));
+  if (scaledRate <= 0n) return 0;
+  return Number((toWholePoints(points) * 100n * BigInt(RATE_SCALE)) / scaledRate);
+};
+
 /**
  * Format Alpha Points for display
- * @param points - Points value as string, number, or bigint
+ * @param points - Points value as bigint, string, or number
  * @param decimals - Number of decimal places (default: 0)
  * @returns Formatted string with commas
  */
-export const formatPoints = (points: number | string, decimals = 0): string => {
-  if (typeof points === 'string') {
-    points = parseFloat(points);
-  }
-  return points.toLocaleString(undefined, {
+export const formatPoints = (points: PointsAmount | number | string, decimals = 0): string => {
+  const formatter = new Intl.NumberFormat(undefined, {
     minimumFractionDigits: decimals,
     maximumFractionDigits: decimals,
   });
+
+  // Fractional values (e.g. averages) are formatted as numbers
+  if (typeof points === 'number' && !Number.isInteger(points)) {
+    return formatter.format(points);
+  }
+  return formatter.format(toWholePoints(points));
 };
 
 /**
@@ -19,41 +42,44 @@ export const formatPoints = (points: number | string, decimals = 0): string => {
  * @param points - Points value
  * @returns Formatted string with suffix
  */
-export const formatPointsCompact = (points: string | number | bigint): string => {
-  const num = typeof points === 'bigint' ? Number(points) : Number(points);
+export const formatPointsCompact = (points: PointsAmount | string | number): string => {
+  const amount = toWholePoints(points);
   
-  if (isNaN(num) || num === 0) return '0';
+  if (amount === 0n) return '0';
   
-  if (num >= 1_000_000_000) {
-    return `${(num / 1_000_000_000).toFixed(1)}B`;
-  } else if (num >= 1_000_000) {
-    return `${(num / 1_000_000).toFixed(1)}M`;
-  } else if (num >= 1_000) {
-    return `${(num / 1_000).toFixed(1)}K`;
+  const units: [bigint, string][] = [
+    [1_000_000_000n, 'B'],
+    [1_000_000n, 'M'],
+    [1_000n, 'K'],
+  ];
+  for (const [unit, suffix] of units) {
+    if (amount >= unit) {
+      // One decimal place, rounded half up
+      const tenths = (amount * 10n + unit / 2n) / unit;
+      return `${(tenths / 10n).toLocaleString()}.${tenths % 10n}${suffix}`;
+    }
   }
   
-  return formatPoints(num);
+  return formatPoints(amount);
 };
 
 /**
  * Format USD value from Alpha Points
  * @param points - Alpha Points value
- * @param rate - Conversion rate (default: 1000 points = $1)
+ * @param rate - Points per USD (default: 1000 points = $1)
  * @returns Formatted USD string
  */
-export const formatPointsToUSD = (points: string | number | bigint, rate = 1000): string => {
-  const num = typeof points === 'bigint' ? Number(points) : Number(points);
-  
-  if (isNaN(num) || num === 0) return '$0.00';
+export const formatPointsToUSD = (points: PointsAmount | string | number, rate = DEFAULT_POINTS_PER_USD): string => {
+  const cents = pointsToUSDCents(points, rate);
   
-  const usdValue = num / rate;
+  if (cents === 0) return '$0.00';
   
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
-  }).format(usdValue);
+  }).format(cents / 100);
 };
 
 /**
@@ -130,12 +156,22 @@ export const formatNumber = (num: number): string => {
 };
 
 /**
- * Convert Alpha Points to USD for display (1000 AP = 1 USD)
+ * Convert Alpha Points to USD for display, at `rate` points per USD
  */
-export const alphaPointsToUSD = (alphaPoints: number): string => {
-  const usdValue = alphaPoints / 1000;
+export const alphaPointsToUSD = (alphaPoints: PointsAmount | number, rate = DEFAULT_POINTS_PER_USD): string => {
+  const usdValue = pointsToUSDCents(alphaPoints, rate) / 100;
   return usdValue.toLocaleString(undefined, { 
     minimumFractionDigits: 2, 
     maximumFractionDigits: 2 
   });
-}; 
\ No newline at end of file
+}; 
+/**
+ * Format an amount of MIST as SUI
+ * @param mist - Amount in MIST (1 SUI = 10^9 MIST)
+ * @param decimals - Maximum decimal places (default: 4)
+ * @returns Formatted string, e.g. "0.0021 SUI"
+ */
+export const formatSui = (mist: bigint, decimals = 4): string => {
+  const sui = Number(mist) / 1_000_000_000;
+  return `${new Intl.NumberFormat(undefined, { maximumFractionDigits: decimals }).format(sui)} SUI`;
+};
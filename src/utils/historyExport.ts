@@ -0,0 +1,53 @@
+import type { HistoryEntry } from '../services/claimHistory';
+
+const CSV_COLUMNS = ['date', 'type', 'perk', 'partner', 'points_spent', 'transaction', 'perk_definition_id', 'claimed_perk_id'] as const;
+
+const toIsoDate = (timestampMs: number | null): string =>
+  timestampMs === null ? '' : new Date(timestampMs).toISOString();
+
+// Quote fields containing separators, and defuse spreadsheet formulas -
+// a leading tab or carriage return also starts one (OWASP CSV injection)
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toRecord = (entry: HistoryEntry): Record<typeof CSV_COLUMNS[number], string> => ({
+  date: toIsoDate(entry.timestampMs),
+  type: entry.kind,
+  perk: entry.perkName,
+  partner: entry.partnerName,
+  points_spent: entry.pointsSpent.toString(),
+  transaction: entry.digest,
+  perk_definition_id: entry.perkDefinitionId ?? '',
+  claimed_perk_id: entry.claimedPerkId ?? '',
+});
+
+/**
+ * History as CSV, one row per entry, for expense reports
+ */
+export const historyToCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.map(entry => {
+    const record = toRecord(entry);
+    return CSV_COLUMNS.map(column => csvField(record[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+/**
+ * History as JSON. Points are strings so u64 amounts survive the round trip.
+ */
+export const historyToJson = (entries: HistoryEntry[]): string =>
+  JSON.stringify(entries.map(toRecord), null, 2);
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,190 @@
+// Privacy for claim metadata
+// Claim data is stored on-chain in a ClaimedPerk, where anyone can read it.
+// Three ways to keep a value private, each tagged with a prefix so a stored
+// value says how it was produced:
+//
+//   hmac-sha256:<hex>    HMAC-SHA256 keyed with the brand salt. Deterministic,
+//                        so a partner holding the salt can match a value
+//                        (e.g. a Discord ID) directly. Only as private as the
+//                        salt - a salt shipped in the frontend bundle is public.
+//   commit-sha256:<hex>  SHA-256 commitment over a random 32-byte nonce. Can't
+//                        be brute-forced; the user keeps the nonce and reveals
+//                        it with the value when the partner asks.
+//   ecies-p256:<base64>  Encrypted to the partner's P-256 public key (ECDH +
+//                        HKDF-SHA256 + AES-256-GCM) when the partner must
+//                        recover the value.
+//
+// This module only uses WebCrypto, so partners can run verifyMetadataValue
+// and decryptMetadataValue in Node 18+ as well as the browser. See
+// METADATA_PRIVACY.md.
+
+export const HMAC_PREFIX = 'hmac-sha256:';
+export const COMMIT_PREFIX = 'commit-sha256:';
+export const ECIES_PREFIX = 'ecies-p256:';
+
+// Domain separation, so a digest can't be replayed as another protocol's
+const DOMAIN = 'alpha4-perk-metadata:v1';
+const NONCE_BYTES = 32;
+const IV_BYTES = 12;
+const P256_PUBLIC_KEY_BYTES = 65; // Uncompressed point
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+// Metadata key and value, length-prefixed so "a:b" + "c" != "a" + "b:c"
+const message = (key: string, value: string): Uint8Array =>
+  encoder.encode(`${DOMAIN}\n${key.length}:${key}\n${value}`);
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// Constant-time comparison of two hex digests
+const digestsEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Keyed hash of a metadata value (see hmac-sha256 above)
+ */
+export const hmacMetadataValue = async (key: string, value: string, salt: string): Promise<string> => {
+  if (!salt) {
+    throw new Error('A salt is required to hash claim metadata');
+  }
+  const hmacKey = await crypto.subtle.importKey('raw', encoder.encode(salt), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', hmacKey, message(key, value));
+  return HMAC_PREFIX + toHex(signature);
+};
+
+/**
+ * Commit to a metadata value with a fresh random nonce. Store the
+ * commitment on-chain and give the nonce to the user.
+ */
+export const commitMetadataValue = async (key: string, value: string): Promise<{ commitment: string; nonce: string }> => {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  const digest = await crypto.subtle.digest('SHA-256', concat(nonce, message(key, value)));
+  return { commitment: COMMIT_PREFIX + toHex(digest), nonce: toHex(nonce) };
+};
+
+// AES key shared between an ephemeral key pair and the partner's key
+const deriveAesKey = async (privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage): Promise<CryptoKey> => {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(DOMAIN) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+};
+
+const importPublicKey = (publicKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', fromBase64(publicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+
+/**
+ * Encrypt a metadata value to a partner's P-256 public key (base64, raw
+ * uncompressed point). The metadata key is bound as additional data.
+ */
+export const encryptMetadataValue = async (key: string, value: string, partnerPublicKey: string): Promise<string> => {
+  const recipient = await importPublicKey(partnerPublicKey);
+  const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const aesKey = await deriveAesKey(ephemeral.privateKey, recipient, 'encrypt');
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+    aesKey,
+    encoder.encode(value)
+  );
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  return ECIES_PREFIX + toBase64(concat(ephemeralPublic, iv, new Uint8Array(ciphertext)));
+};
+
+/**
+ * Recover an encrypted metadata value with the partner's private key (JWK)
+ */
+export const decryptMetadataValue = async (stored: string, key: string, partnerPrivateKey: JsonWebKey): Promise<string> => {
+  if (!stored.startsWith(ECIES_PREFIX)) {
+    throw new Error('Value is not encrypted claim metadata');
+  }
+  const payload = fromBase64(stored.slice(ECIES_PREFIX.length));
+  const ephemeralPublic = payload.slice(0, P256_PUBLIC_KEY_BYTES);
+  const iv = payload.slice(P256_PUBLIC_KEY_BYTES, P256_PUBLIC_KEY_BYTES + IV_BYTES);
+  const ciphertext = payload.slice(P256_PUBLIC_KEY_BYTES + IV_BYTES);
+
+  const privateKey = await crypto.subtle.importKey('jwk', partnerPrivateKey, { name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  const sender = await crypto.subtle.importKey('raw', ephemeralPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const aesKey = await deriveAesKey(privateKey, sender, 'decrypt');
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+    aesKey,
+    ciphertext
+  );
+  return decoder.decode(plaintext);
+};
+
+/**
+ * Generate a key pair for receiving encrypted claim metadata. Publish
+ * `publicKey` in the brand config; keep `privateKey` off the frontend.
+ */
+export const generateMetadataKeyPair = async (): Promise<{ publicKey: string; privateKey: JsonWebKey }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  return {
+    publicKey: toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))),
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  };
+};
+
+/**
+ * Check a revealed value against the value stored on-chain. Hashed values
+ * need the brand salt; commitments need the nonce the user kept.
+ */
+export const verifyMetadataValue = async (
+  stored: string,
+  { key, value, salt, nonce }: { key: string; value: string; salt?: string; nonce?: string }
+): Promise<boolean> => {
+  if (stored.startsWith(HMAC_PREFIX)) {
+    if (!salt) return false;
+    return digestsEqual(stored, await hmacMetadataValue(key, value, salt));
+  }
+
+  if (stored.startsWith(COMMIT_PREFIX)) {
+    if (!nonce) return false;
+    let nonceBytes: Uint8Array;
+    try {
+      nonceBytes = fromHex(nonce);
+    } catch {
+      return false;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', concat(nonceBytes, message(key, value)));
+    return digestsEqual(stored, COMMIT_PREFIX + toHex(digest));
+  }
+
+  // Plain values (and encrypted ones, which are checked by decrypting)
+  return stored === value;
+};
@@ -0,0 +1,192 @@
+// Decoding of transaction failures
+// Dry runs, devInspect and wallets all report a failed Move call as a
+// MoveAbort string. This module parses those into the aborting module and
+// code, maps known codes to a typed TransactionError, and gives every
+// transaction flow the same user-facing (brand-overridable) message.
+//
+// Only aborts from a registered perk_manager package are mapped. Named
+// (clever) errors carry the error constant, so those are decoded on any
+// network. The Move source isn't in this repo, so numeric codes only have a
+// known meaning on the demo chain, which defines them. Anything else gets
+// the generic message.
+import { BRAND_CONFIG } from '../config/brand';
+import { SUI_CONFIG, isPerkManagerPackage } from '../config/sui';
+
+export type TransactionErrorKind =
+  | 'perk_inactive'
+  | 'perk_expired'
+  | 'max_claims_reached'
+  | 'insufficient_points'
+  | 'no_uses_remaining'
+  | 'invalid_metadata'
+  | 'not_owner'
+  | 'insufficient_gas'
+  | 'user_rejected'
+  | 'unknown';
+
+// perk_manager abort codes of the demo chain (services/demoChain raises
+// these). Deployed packages' numeric codes aren't decoded.
+export const PERK_MANAGER_ABORT_CODES = {
+  EPerkNotActive: 1,
+  EPerkExpired: 2,
+  EMaxClaimsReached: 3,
+  EInsufficientPoints: 4,
+  ENoUsesRemaining: 5,
+  EInvalidMetadata: 6,
+  ENotOwner: 7,
+} as const;
+
+// Error constant name -> kind, shared by numeric codes and named (clever) errors
+const ERROR_KINDS: Record<string, TransactionErrorKind> = {
+  EPerkNotActive: 'perk_inactive',
+  EPerkExpired: 'perk_expired',
+  EMaxClaimsReached: 'max_claims_reached',
+  EInsufficientPoints: 'insufficient_points',
+  EInsufficientBalance: 'insufficient_points',
+  EInsufficientLockedBalance: 'insufficient_points',
+  ENoUsesRemaining: 'no_uses_remaining',
+  EInvalidMetadata: 'invalid_metadata',
+  ENotOwner: 'not_owner',
+};
+
+const ABORT_CODE_TABLE: Record<string, Record<number, string>> = {
+  perk_manager: Object.fromEntries(Object.entries(PERK_MANAGER_ABORT_CODES).map(([name, code]) => [code, name])),
+};
+
+// Modules whose error constants ERROR_KINDS describes
+const KNOWN_MODULES = new Set(['perk_manager', 'ledger']);
+
+// Error constant for a numeric code, where its meaning is known
+const lookupAbortCode = (address: string, module: string, code: number): string | undefined =>
+  SUI_CONFIG.demoMode && isPerkManagerPackage(address) ? ABORT_CODE_TABLE[module]?.[code] : undefined;
+
+export const DEFAULT_TRANSACTION_ERROR_MESSAGES: Record<TransactionErrorKind, string> = {
+  perk_inactive: 'This perk is not currently active.',
+  perk_expired: 'This perk has expired.',
+  max_claims_reached: 'This perk has reached its maximum claims limit.',
+  insufficient_points: "You don't have enough Alpha Points.",
+  no_uses_remaining: 'This perk has no uses remaining.',
+  invalid_metadata: 'The details you entered were rejected. Please check them and try again.',
+  not_owner: "This perk belongs to a different wallet.",
+  insufficient_gas: "You don't have enough SUI to pay for gas.",
+  user_rejected: 'Transaction cancelled in your wallet.',
+  unknown: 'Transaction failed.',
+};
+
+export interface MoveAbortInfo {
+  address: string; // Package ID, 0x-prefixed
+  module: string;
+  functionName?: string;
+  code: number; // -1 for a named abort
+  errorName?: string; // Error constant, from a named abort or the demo code table
+  commandIndex?: number;
+}
+
+// MoveAbort(MoveLocation { module: ModuleId { address: <hex>, name: Identifier("<module>") },
+//   function: <n>, instruction: <n>, function_name: Some("<fn>") }, <code>) in command <n>
+const MOVE_ABORT_PATTERN =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/;
+
+// Named errors: Error from '0x<pkg>::<module>::<fn>' (line <n>), abort '<ErrorName>': ...
+const NAMED_ABORT_PATTERN = /'(?:0x)?([0-9a-fA-F]+)::(\w+)::(\w+)'.*?abort '(\w+)'/;
+
+const GAS_PATTERN = /InsufficientGas|GasBalanceTooLow|InsufficientCoinBalance|No valid gas coins|gas selection|gas budget/i;
+const REJECTED_PATTERN = /rejected|denied|cancell?ed by (the )?user/i;
+
+/**
+ * Parse a MoveAbort from an execution error string. Returns null when the
+ * failure wasn't a Move abort.
+ */
+export const parseMoveAbort = (message: string): MoveAbortInfo | null => {
+  const abort = MOVE_ABORT_PATTERN.exec(message);
+  if (abort) {
+    const [, address, module, functionName, code, commandIndex] = abort;
+    const packageId = `0x${address!.padStart(64, '0')}`;
+    return {
+      address: packageId,
+      module: module!,
+      functionName,
+      code: Number(code),
+      errorName: lookupAbortCode(packageId, module!, Number(code)),
+      commandIndex: commandIndex === undefined ? undefined : Number(commandIndex),
+    };
+  }
+
+  const named = NAMED_ABORT_PATTERN.exec(message);
+  if (named) {
+    const [, address, module, functionName, errorName] = named;
+    return {
+      address: `0x${address!.padStart(64, '0')}`,
+      module: module!,
+      functionName,
+      code: -1,
+      errorName,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * A failed transaction, with a message fit to show the user. The raw
+ * error from the chain or wallet is kept in `details`.
+ */
+export class TransactionError extends Error {
+  readonly kind: TransactionErrorKind;
+  readonly abort: MoveAbortInfo | null;
+  readonly details: string;
+
+  constructor(kind: TransactionErrorKind, details: string, abort: MoveAbortInfo | null = null) {
+    // Unrecognised aborts are summarised rather than shown raw
+    super(getTransactionErrorMessage(kind, abort ? `(${abort.module} abort ${abort.code < 0 ? abort.errorName : `code ${abort.code}`})` : details));
+    this.name = 'TransactionError';
+    this.kind = kind;
+    this.details = details;
+    this.abort = abort;
+  }
+}
+
+/**
+ * User-facing message for an error kind, preferring the brand's wording
+ */
+export const getTransactionErrorMessage = (kind: TransactionErrorKind, details?: string): string => {
+  const message = BRAND_CONFIG.content.transactionErrors?.[kind] ?? DEFAULT_TRANSACTION_ERROR_MESSAGES[kind];
+  return kind === 'unknown' && details ? `${message} ${details}` : message;
+};
+
+const errorText = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  if (error instanceof Error) return error.message;
+  // Execution status from effects
+  if (error && typeof error === 'object' && 'error' in error && typeof error.error === 'string') {
+    return error.error;
+  }
+  return String(error);
+};
+
+/**
+ * Decode any transaction failure - a thrown error, an effects status error
+ * string, or a wallet rejection - into a TransactionError
+ */
+export const decodeTransactionError = (error: unknown): TransactionError => {
+  if (error instanceof TransactionError) return error;
+
+  const details = errorText(error);
+  const abort = parseMoveAbort(details);
+  if (abort) {
+    // Another package's constants may share our names but mean something else
+    const isOurs = KNOWN_MODULES.has(abort.module) && isPerkManagerPackage(abort.address);
+    const kind = (isOurs && abort.errorName && ERROR_KINDS[abort.errorName]) || 'unknown';
+    return new TransactionError(kind, details, abort);
+  }
+
+  // Error names in the text (older wallet and SDK messages)
+  const namedKind = Object.entries(ERROR_KINDS).find(([name]) => details.includes(name))?.[1];
+  if (namedKind) return new TransactionError(namedKind, details);
+
+  if (GAS_PATTERN.test(details)) return new TransactionError('insufficient_gas', details);
+  if (/Insufficient balance/i.test(details)) return new TransactionError('insufficient_points', details);
+  if (REJECTED_PATTERN.test(details)) return new TransactionError('user_rejected', details);
+
+  return new TransactionError('unknown', details);
+};
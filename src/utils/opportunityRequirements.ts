@@ -0,0 +1,152 @@
+// Requirement expressions for redemption opportunities
+// A requirement is a perk rule, a points rule, or an allOf / anyOf / not
+// group of them. Evaluating one gives a tree mirroring the expression with
+// what is met and missing at each node, which the redemption center both
+// renders and gates redemption on.
+//
+// Rules are checked independently, so one perk can count towards several.
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+import { formatPoints } from './format';
+import { pointsShortfall, pointsToNumber } from './points';
+import type {
+  OwnedPerk,
+  PerkMatcher,
+  PointsAmount,
+  PointsBalanceRequirement,
+  RedemptionOpportunityRequirement,
+  RequirementExpression,
+} from '../types/index';
+
+export interface RequirementContext {
+  ownedPerks: OwnedPerk[];
+  pointsBalance: PointsAmount; // Available points
+  now: number;
+}
+
+export type RequirementKind = 'perks' | 'points' | 'allOf' | 'anyOf' | 'not';
+
+export interface RequirementResult {
+  kind: RequirementKind;
+  label: string;
+  description?: string;
+  isMet: boolean;
+  current: number; // Matching perks or points held; met children for groups
+  target: number;
+  progress: number; // 0-1
+  matchedPerkIds: string[];
+  missing: string[]; // What would meet it, e.g. "2x VIP Pass"
+  children: RequirementResult[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameObjectId = (a: string, b: string) => normalizeSuiObjectId(a) === normalizeSuiObjectId(b);
+
+/**
+ * Whether an owned perk counts towards a perk rule. Only active perks do.
+ */
+export const matchesPerk = (perk: OwnedPerk, matcher: PerkMatcher, now = Date.now()): boolean =>
+  perk.status === 'ACTIVE'
+  && (matcher.perkType === undefined || perk.redemptionType === matcher.perkType)
+  && (matcher.perkDefinitionId === undefined || sameObjectId(perk.perkDefinitionId, matcher.perkDefinitionId))
+  && (matcher.partnerCapId === undefined || sameObjectId(perk.partnerCapId, matcher.partnerCapId))
+  && (matcher.tags ?? []).every(tag => perk.tags.includes(tag))
+  && (matcher.minRemainingUses === undefined || perk.remainingUses === null || perk.remainingUses >= matcher.minRemainingUses)
+  && (matcher.minClaimAgeDays === undefined || now - perk.claimTimestamp >= matcher.minClaimAgeDays * DAY_MS);
+
+const evaluatePerks = (requirement: RedemptionOpportunityRequirement, context: RequirementContext): RequirementResult => {
+  const matched = context.ownedPerks.filter(perk => matchesPerk(perk, requirement, context.now));
+  const isMet = matched.length >= requirement.quantity;
+  return {
+    kind: 'perks',
+    label: requirement.perkName,
+    description: requirement.description,
+    isMet,
+    current: matched.length,
+    target: requirement.quantity,
+    progress: Math.min(matched.length / requirement.quantity, 1),
+    matchedPerkIds: matched.map(perk => perk.id),
+    missing: isMet ? [] : [`${requirement.quantity - matched.length}x ${requirement.perkName}`],
+    children: [],
+  };
+};
+
+const evaluatePoints = (requirement: PointsBalanceRequirement, context: RequirementContext): RequirementResult => {
+  const required = BigInt(requirement.minPoints);
+  const shortfall = pointsShortfall(context.pointsBalance, required);
+  return {
+    kind: 'points',
+    label: `${formatPoints(required)} points`,
+    description: requirement.description,
+    isMet: shortfall === 0n,
+    current: pointsToNumber(context.pointsBalance),
+    target: requirement.minPoints,
+    progress: required > 0n ? Math.min(pointsToNumber(context.pointsBalance) / requirement.minPoints, 1) : 1,
+    matchedPerkIds: [],
+    missing: shortfall === 0n ? [] : [`${formatPoints(shortfall)} more points`],
+    children: [],
+  };
+};
+
+const evaluateGroup = (
+  kind: 'allOf' | 'anyOf',
+  requirements: RequirementExpression[],
+  description: string | undefined,
+  context: RequirementContext
+): RequirementResult => {
+  const children = requirements.map(requirement => evaluateRequirement(requirement, context));
+  const metCount = children.filter(child => child.isMet).length;
+  const isMet = kind === 'allOf' ? metCount === children.length : metCount > 0;
+  const progress = kind === 'allOf'
+    ? (children.length > 0 ? children.reduce((sum, child) => sum + child.progress, 0) / children.length : 1)
+    : Math.max(0, ...children.map(child => child.progress));
+
+  let missing: string[] = [];
+  if (!isMet) {
+    missing = kind === 'allOf'
+      ? children.flatMap(child => child.missing)
+      : [`${description ?? 'One of'}: ${children.map(child => child.missing.join(' + ')).join(' or ')}`];
+  }
+
+  return {
+    kind,
+    label: description ?? (kind === 'allOf' ? 'All of' : 'Any of'),
+    isMet,
+    current: metCount,
+    target: kind === 'allOf' ? children.length : 1,
+    progress,
+    matchedPerkIds: [...new Set(children.filter(child => child.isMet).flatMap(child => child.matchedPerkIds))],
+    missing,
+    children,
+  };
+};
+
+/**
+ * Evaluate a requirement expression against what a user holds
+ */
+export const evaluateRequirement = (requirement: RequirementExpression, context: RequirementContext): RequirementResult => {
+  if ('allOf' in requirement) return evaluateGroup('allOf', requirement.allOf, requirement.description, context);
+  if ('anyOf' in requirement) return evaluateGroup('anyOf', requirement.anyOf, requirement.description, context);
+  if ('not' in requirement) {
+    const inner = evaluateRequirement(requirement.not, context);
+    return {
+      kind: 'not',
+      label: requirement.description,
+      isMet: !inner.isMet,
+      current: inner.isMet ? 0 : 1,
+      target: 1,
+      progress: inner.isMet ? 0 : 1,
+      matchedPerkIds: [],
+      missing: inner.isMet ? [requirement.description] : [],
+      children: [inner],
+    };
+  }
+  if ('minPoints' in requirement) return evaluatePoints(requirement, context);
+  return evaluatePerks(requirement, context);
+};
+
+/**
+ * Evaluate an opportunity's requirement list, which must all be met
+ */
+export const evaluateRequirements = (requirements: RequirementExpression[], context: RequirementContext): RequirementResult =>
+  evaluateGroup('allOf', requirements, undefined, context);
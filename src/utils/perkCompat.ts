@@ -0,0 +1,80 @@
+import type { PerkDefinition, PerkDefinitionModel } from '../types/index';
+
+// Components still read the duplicated snake_case/camelCase fields of
+// PerkDefinition. New code should use PerkDefinitionModel directly; this
+// layer goes away once nothing reads the aliases.
+
+const toNumber = (value: bigint): number => Number(value);
+
+const toOptionalNumber = (value: bigint | null): number | undefined =>
+  value === null ? undefined : Number(value);
+
+/**
+ * Expand a canonical model into the legacy PerkDefinition shape with both
+ * naming conventions populated. u64 values are converted to number, except
+ * Alpha Points prices which stay bigint.
+ */
+export const toLegacyPerkDefinition = (
+  perk: PerkDefinitionModel,
+  extras: Partial<PerkDefinition> = {}
+): PerkDefinition => {
+  const usdcPrice = toNumber(perk.usdcPrice);
+  const alphaPointsPrice = perk.alphaPointsPrice;
+  const lastPriceUpdate = toNumber(perk.lastPriceUpdateTimestampMs);
+  const totalClaims = toNumber(perk.totalClaimsCount);
+  const maxClaims = toOptionalNumber(perk.maxClaims);
+  const maxUses = toOptionalNumber(perk.maxUsesPerClaim);
+  const expiration = toOptionalNumber(perk.expirationTimestampMs);
+  const tagMetadataId = perk.tagMetadataId ?? undefined;
+  const definitionMetadataId = perk.definitionMetadataId ?? undefined;
+
+  return {
+    id: perk.objectId,
+    objectId: perk.objectId,
+
+    name: perk.name,
+    description: perk.description,
+
+    creator_partner_cap_id: perk.creatorPartnerCapId,
+    creatorPartnerCapId: perk.creatorPartnerCapId,
+    perk_type: perk.perkType,
+    perkType: perk.perkType,
+
+    usdc_price: usdcPrice,
+    usdcPrice,
+    current_alpha_points_price: alphaPointsPrice,
+    currentAlphaPointsPrice: alphaPointsPrice,
+
+    last_price_update_timestamp_ms: lastPriceUpdate,
+    lastPriceUpdateTimestamp: lastPriceUpdate,
+
+    max_claims: maxClaims,
+    maxClaims,
+    total_claims_count: totalClaims,
+    totalClaimsCount: totalClaims,
+
+    is_active: perk.isActive,
+    isActive: perk.isActive,
+    generates_unique_claim_metadata: perk.generatesUniqueClaimMetadata,
+    generatesUniqueClaimMetadata: perk.generatesUniqueClaimMetadata,
+
+    max_uses_per_claim: maxUses,
+    maxUsesPerClaim: maxUses,
+    expiration_timestamp_ms: expiration,
+    expirationTimestamp: expiration,
+
+    tags: perk.tags,
+    tag_metadata_id: tagMetadataId,
+    tagMetadataId,
+    definition_metadata_id: definitionMetadataId,
+    definitionMetadataId,
+
+    icon: perk.icon ?? undefined,
+    claimCount: totalClaims,
+
+    partner_share_percentage: perk.partnerSharePercentage,
+    platform_share_percentage: perk.platformSharePercentage,
+
+    ...extras,
+  };
+};
@@ -0,0 +1,230 @@
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import type { PerkDefinitionModel, PerkDefinitionStatus } from '../types/index';
+import { parseUnsigned } from './codec';
+
+const PERK_DEFINITION_TYPE_SUFFIX = '::perk_manager::PerkDefinition';
+
+// Defaults used when an older PerkDefinition has no revenue split policy
+const DEFAULT_PARTNER_SHARE = 70;
+const DEFAULT_PLATFORM_SHARE = 30;
+
+export interface PerkParseIssue {
+  field: string;
+  message: string;
+}
+
+export type PerkParseResult =
+  | { ok: true; perk: PerkDefinitionModel }
+  | { ok: false; objectId: string | null; issues: PerkParseIssue[] };
+
+type MoveFields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is MoveFields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nested structs come back either as { fields: {...} } or already flattened
+const unwrapStruct = (value: unknown): MoveFields | null => {
+  if (!isRecord(value)) return null;
+  return isRecord(value.fields) ? value.fields : value;
+};
+
+/**
+ * Unwrap a Move Option<T>, which the RPC renders as null, the bare value,
+ * or a { vec: [] } wrapper depending on the node version
+ */
+export const readMoveOption = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+
+  const struct = unwrapStruct(value);
+  if (struct && Array.isArray(struct.vec)) {
+    return struct.vec.length > 0 ? struct.vec[0] : null;
+  }
+  return value;
+};
+
+/**
+ * Read a u64/u128 field as bigint. Returns undefined when the value is not
+ * an unsigned integer.
+ */
+export const readMoveU64 = (value: unknown): bigint | undefined => parseUnsigned(value);
+
+// IDs render as a plain address or as an ID/UID struct
+const readMoveId = (value: unknown): string | undefined => {
+  if (typeof value === 'string' && value.startsWith('0x')) return value;
+  const struct = unwrapStruct(value);
+  if (struct && 'id' in struct) return readMoveId(struct.id);
+  return undefined;
+};
+
+/**
+ * Normalize tags into a trimmed, de-duplicated list of strings
+ */
+export const normalizePerkTags = (value: unknown): string[] => {
+  let raw: unknown[] = [];
+
+  if (Array.isArray(value)) {
+    raw = value;
+  } else if (typeof value === 'string') {
+    raw = value.split(',');
+  } else {
+    // VecSet<String> renders as { contents: [...] }
+    const struct = unwrapStruct(value);
+    if (struct && Array.isArray(struct.contents)) {
+      raw = struct.contents;
+    }
+  }
+
+  const tags = raw
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+
+  return Array.from(new Set(tags));
+};
+
+/**
+ * Derive the display status of a perk at a given time
+ */
+export const getPerkDefinitionStatus = (
+  perk: Pick<PerkDefinitionModel, 'isActive' | 'expirationTimestampMs' | 'maxClaims' | 'totalClaimsCount'>,
+  now: number = Date.now()
+): PerkDefinitionStatus => {
+  if (!perk.isActive) return 'INACTIVE';
+  if (perk.expirationTimestampMs !== null && perk.expirationTimestampMs <= BigInt(now)) return 'EXPIRED';
+  if (perk.maxClaims !== null && perk.totalClaimsCount >= perk.maxClaims) return 'SOLD_OUT';
+  return 'ACTIVE';
+};
+
+/**
+ * Parse the Move fields of a PerkDefinition into the canonical model
+ */
+export const parsePerkDefinitionFields = (
+  objectId: string,
+  fields: MoveFields,
+  objectType?: string
+): PerkParseResult => {
+  const issues: PerkParseIssue[] = [];
+
+  const requireU64 = (field: string): bigint => {
+    const value = readMoveU64(fields[field]);
+    if (value === undefined) {
+      issues.push({ field, message: `expected an unsigned integer, got ${JSON.stringify(fields[field])}` });
+      return 0n;
+    }
+    return value;
+  };
+
+  const optionalU64 = (field: string): bigint | null => {
+    const inner = readMoveOption(fields[field]);
+    if (inner === null) return null;
+
+    const value = readMoveU64(inner);
+    if (value === undefined) {
+      issues.push({ field, message: `expected an optional unsigned integer, got ${JSON.stringify(inner)}` });
+      return null;
+    }
+    return value;
+  };
+
+  const optionalId = (field: string): string | null => {
+    const inner = readMoveOption(fields[field]);
+    return inner === null ? null : readMoveId(inner) ?? null;
+  };
+
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!name) {
+    issues.push({ field: 'name', message: 'missing perk name' });
+  }
+
+  const creatorPartnerCapId = readMoveId(fields.creator_partner_cap_id);
+  if (!creatorPartnerCapId) {
+    issues.push({ field: 'creator_partner_cap_id', message: 'missing creator partner cap ID' });
+  }
+
+  if (typeof fields.is_active !== 'boolean') {
+    issues.push({ field: 'is_active', message: 'expected a boolean' });
+  }
+
+  const usdcPrice = requireU64('usdc_price');
+  const alphaPointsPrice = requireU64('current_alpha_points_price');
+  const totalClaimsCount = readMoveU64(fields.total_claims_count) ?? 0n;
+  const lastPriceUpdateTimestampMs = readMoveU64(fields.last_price_update_timestamp_ms) ?? 0n;
+  const maxClaims = optionalU64('max_claims');
+  const maxUsesPerClaim = optionalU64('max_uses_per_claim');
+  const expirationTimestampMs = optionalU64('expiration_timestamp_ms');
+
+  const revenueSplit = unwrapStruct(fields.revenue_split_policy) ?? {};
+  const partnerShare = readMoveU64(revenueSplit.partner_share_percentage);
+  const platformShare = readMoveU64(revenueSplit.platform_share_percentage);
+
+  if (issues.length > 0) {
+    return { ok: false, objectId, issues };
+  }
+
+  const isActive = fields.is_active === true;
+  const icon = readMoveOption(fields.icon);
+
+  const perk: PerkDefinitionModel = {
+    objectId,
+    objectType,
+    name,
+    description: typeof fields.description === 'string' ? fields.description : '',
+    perkType: typeof fields.perk_type === 'string' && fields.perk_type ? fields.perk_type : 'General',
+    creatorPartnerCapId: creatorPartnerCapId as string,
+    usdcPrice,
+    alphaPointsPrice,
+    lastPriceUpdateTimestampMs,
+    totalClaimsCount,
+    maxClaims,
+    maxUsesPerClaim,
+    expirationTimestampMs,
+    isActive,
+    generatesUniqueClaimMetadata: fields.generates_unique_claim_metadata === true,
+    status: 'ACTIVE',
+    tags: normalizePerkTags(fields.tags),
+    tagMetadataId: optionalId('tag_metadata_id'),
+    definitionMetadataId: optionalId('definition_metadata_id'),
+    icon: typeof icon === 'string' && icon ? icon : null,
+    partnerSharePercentage: partnerShare !== undefined ? Number(partnerShare) : DEFAULT_PARTNER_SHARE,
+    platformSharePercentage: platformShare !== undefined ? Number(platformShare) : DEFAULT_PLATFORM_SHARE,
+  };
+  perk.status = getPerkDefinitionStatus(perk);
+
+  return { ok: true, perk };
+};
+
+/**
+ * Parse a getObject/multiGetObjects response into the canonical model
+ */
+export const parsePerkDefinition = (response: SuiObjectResponse): PerkParseResult => {
+  const data = response.data;
+  if (!data) {
+    return {
+      ok: false,
+      objectId: null,
+      issues: [{ field: 'data', message: response.error ? `object error: ${response.error.code}` : 'object not found' }],
+    };
+  }
+
+  if (!data.content || data.content.dataType !== 'moveObject') {
+    return { ok: false, objectId: data.objectId, issues: [{ field: 'content', message: 'not a Move object' }] };
+  }
+
+  const objectType = data.content.type;
+  if (!objectType.endsWith(PERK_DEFINITION_TYPE_SUFFIX)) {
+    return { ok: false, objectId: data.objectId, issues: [{ field: 'type', message: `unexpected type ${objectType}` }] };
+  }
+
+  const fields = unwrapStruct(data.content.fields);
+  if (!fields) {
+    return { ok: false, objectId: data.objectId, issues: [{ field: 'fields', message: 'missing Move fields' }] };
+  }
+
+  return parsePerkDefinitionFields(data.objectId, fields, objectType);
+};
+
+/**
+ * Format parse issues into a single line for logs and toasts
+ */
+export const describePerkParseIssues = (issues: PerkParseIssue[]): string =>
+  issues.map(issue => `${issue.field}: ${issue.message}`).join('; ');
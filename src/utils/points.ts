@@ -0,0 +1,30 @@
+import type { PointsAmount } from '../types/index';
+import { MAX_U64, parseUnsigned } from './codec';
+
+/**
+ * Coerce a balance or price into a PointsAmount. Accepts bigint, decimal
+ * strings and integer numbers (older cached data); anything else is 0.
+ */
+export const toPointsAmount = (value: unknown): PointsAmount => parseUnsigned(value, MAX_U64) ?? 0n;
+
+/**
+ * Comparator for sorting by points, ascending
+ */
+export const comparePoints = (a: PointsAmount, b: PointsAmount): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Whether a balance covers a price
+ */
+export const canAffordPoints = (balance: PointsAmount, price: PointsAmount): boolean => balance >= price;
+
+/**
+ * Points still needed to afford a price (0 when already affordable)
+ */
+export const pointsShortfall = (balance: PointsAmount, price: PointsAmount): PointsAmount =>
+  price > balance ? price - balance : 0n;
+
+/**
+ * Convert to number for display math (charts, USD estimates). Only use at
+ * the edge - values above 2^53 are approximated.
+ */
+export const pointsToNumber = (points: PointsAmount): number => Number(points);
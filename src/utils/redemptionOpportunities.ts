@@ -0,0 +1,284 @@
+import { REDEMPTION_OPPORTUNITIES } from '../config/redemptionOpportunities';
+import { evaluateRequirements } from './opportunityRequirements';
+import type { RequirementContext, RequirementResult } from './opportunityRequirements';
+import type {
+  RedemptionOpportunity,
+  RedemptionOpportunityConfig,
+  RedemptionType,
+} from '../types/index';
+
+export interface OpportunityConfigIssue {
+  opportunityId: string | null; // null when the entry has no usable ID
+  field: string;
+  message: string;
+}
+
+export type OpportunityAvailability = 'upcoming' | 'open' | 'ended';
+
+export interface OpportunityCheck {
+  canRedeem: boolean;
+  availability: OpportunityAvailability;
+  requirements: RequirementResult; // All of the opportunity's requirements
+  missingRequirements: string[];
+  completionPercent: number;
+  limitReached: boolean;
+}
+
+const REDEMPTION_TYPES: RedemptionType[] = ['voucher_code', 'digital_delivery', 'service_booking', 'membership_access', 'physical_claim'];
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const isNonNegativeInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const PERK_MATCHER_CHECKS: [field: string, isValid: (value: unknown) => boolean, expected: string][] = [
+  ['perkDefinitionId', isNonEmptyString, 'an object ID'],
+  ['partnerCapId', isNonEmptyString, 'an object ID'],
+  ['tags', value => Array.isArray(value) && value.every(isNonEmptyString), 'a list of tags'],
+  ['minRemainingUses', isPositiveInteger, 'a positive integer'],
+  ['minClaimAgeDays', isNonNegativeInteger, 'a whole number of days'],
+];
+
+// Check one requirement expression and any nested groups
+const validateRequirement = (requirement: unknown, field: string, report: (field: string, message: string) => void) => {
+  if (!isRecord(requirement)) {
+    report(field, 'expected an object');
+    return;
+  }
+
+  if ('allOf' in requirement || 'anyOf' in requirement) {
+    const key = 'allOf' in requirement ? 'allOf' : 'anyOf';
+    const group = requirement[key];
+    if (!Array.isArray(group) || group.length === 0) report(`${field}.${key}`, 'needs at least one requirement');
+    else group.forEach((child: unknown, index) => validateRequirement(child, `${field}.${key}[${index}]`, report));
+    if (requirement.description !== undefined && !isNonEmptyString(requirement.description)) report(`${field}.description`, 'expected a string');
+    return;
+  }
+
+  if ('not' in requirement) {
+    validateRequirement(requirement.not, `${field}.not`, report);
+    if (!isNonEmptyString(requirement.description)) report(`${field}.description`, 'missing description');
+    return;
+  }
+
+  if ('minPoints' in requirement) {
+    if (!isPositiveInteger(requirement.minPoints)) report(`${field}.minPoints`, 'expected a positive integer');
+    if (typeof requirement.description !== 'string') report(`${field}.description`, 'missing description');
+    return;
+  }
+
+  if (!isNonEmptyString(requirement.perkName)) report(`${field}.perkName`, 'missing perk name');
+  if (requirement.perkType !== undefined && !REDEMPTION_TYPES.includes(requirement.perkType as RedemptionType)) {
+    report(`${field}.perkType`, `unknown perk type ${JSON.stringify(requirement.perkType)}`);
+  }
+  for (const [key, isValid, expected] of PERK_MATCHER_CHECKS) {
+    if (requirement[key] !== undefined && !isValid(requirement[key])) report(`${field}.${key}`, `expected ${expected}`);
+  }
+  if (!isPositiveInteger(requirement.quantity)) report(`${field}.quantity`, 'expected a positive integer');
+  if (typeof requirement.description !== 'string') report(`${field}.description`, 'missing description');
+};
+
+// Optional ISO date; undefined for a bad value so it can be reported
+const parseDate = (value: unknown): number | null | undefined => {
+  if (value === undefined) return null;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const validateOpportunity = (
+  entry: unknown,
+  issues: OpportunityConfigIssue[]
+): RedemptionOpportunity | null => {
+  const before = issues.length;
+  const config = (isRecord(entry) ? entry : {}) as Partial<Record<keyof RedemptionOpportunityConfig, unknown>>;
+  const opportunityId = isNonEmptyString(config.id) ? config.id : null;
+  const report = (field: string, message: string) => issues.push({ opportunityId, field, message });
+
+  if (!isRecord(entry)) {
+    report('entry', 'expected an object');
+    return null;
+  }
+  if (!opportunityId) report('id', 'missing ID');
+  for (const field of ['title', 'description', 'icon'] as const) {
+    if (!isNonEmptyString(config[field])) report(field, `missing ${field}`);
+  }
+  if (!DIFFICULTIES.includes(config.difficulty as string)) {
+    report('difficulty', `expected one of ${DIFFICULTIES.join(', ')}`);
+  }
+
+  const requirements = Array.isArray(config.requirements) ? config.requirements : [];
+  if (requirements.length === 0) report('requirements', 'needs at least one requirement');
+  requirements.forEach((requirement: unknown, index) => validateRequirement(requirement, `requirements[${index}]`, report));
+
+  const reward = isRecord(config.reward) ? config.reward : null;
+  if (!reward) {
+    report('reward', 'missing reward');
+  } else {
+    if (!isNonEmptyString(reward.label)) report('reward.label', 'missing label');
+    if (!isNonEmptyString(reward.description)) report('reward.description', 'missing description');
+    if (!REDEMPTION_TYPES.includes(reward.redemptionType as RedemptionType)) report('reward.redemptionType', `unknown redemption type ${JSON.stringify(reward.redemptionType)}`);
+    for (const field of ['estimatedValue', 'timeToRedeem'] as const) {
+      if (reward[field] !== undefined && typeof reward[field] !== 'string') report(`reward.${field}`, 'expected a string');
+    }
+    if (reward.validForDays !== undefined && !isPositiveInteger(reward.validForDays)) report('reward.validForDays', 'expected a positive integer');
+  }
+
+  const schedule = config.schedule === undefined ? {} : isRecord(config.schedule) ? config.schedule : null;
+  if (!schedule) report('schedule', 'expected an object');
+  const startsAt = parseDate(schedule?.startsAt);
+  const endsAt = parseDate(schedule?.endsAt);
+  if (startsAt === undefined) report('schedule.startsAt', 'expected an ISO 8601 date');
+  if (endsAt === undefined) report('schedule.endsAt', 'expected an ISO 8601 date');
+  if (typeof startsAt === 'number' && typeof endsAt === 'number' && endsAt <= startsAt) {
+    report('schedule', 'endsAt must be after startsAt');
+  }
+
+  if (config.perUserLimit !== undefined && !isPositiveInteger(config.perUserLimit)) {
+    report('perUserLimit', 'expected a positive integer');
+  }
+
+  if (issues.length > before) return null;
+  const valid = entry as unknown as RedemptionOpportunityConfig;
+  return {
+    id: valid.id,
+    title: valid.title,
+    description: valid.description,
+    icon: valid.icon,
+    difficulty: valid.difficulty,
+    requirements: valid.requirements,
+    reward: valid.reward,
+    startsAt: startsAt ?? null,
+    endsAt: endsAt ?? null,
+    perUserLimit: valid.perUserLimit ?? null,
+  };
+};
+
+/**
+ * Validate configured opportunities. Invalid entries and repeated IDs are
+ * left out and reported, so one typo doesn't take the others down.
+ */
+export const parseRedemptionOpportunities = (
+  entries: readonly unknown[]
+): { opportunities: RedemptionOpportunity[]; issues: OpportunityConfigIssue[] } => {
+  const issues: OpportunityConfigIssue[] = [];
+  const opportunities: RedemptionOpportunity[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const opportunity = validateOpportunity(entry, issues);
+    if (!opportunity) continue;
+    if (seen.has(opportunity.id)) {
+      issues.push({ opportunityId: opportunity.id, field: 'id', message: 'duplicate ID' });
+      continue;
+    }
+    seen.add(opportunity.id);
+    opportunities.push(opportunity);
+  }
+
+  return { opportunities, issues };
+};
+
+/**
+ * Format config issues into a single line for logs
+ */
+export const describeOpportunityConfigIssues = (issues: OpportunityConfigIssue[]): string =>
+  issues.map(issue => `${issue.opportunityId ?? '(no id)'} ${issue.field}: ${issue.message}`).join('; ');
+
+let configuredOpportunities: RedemptionOpportunity[] | null = null;
+
+/**
+ * The brand's valid opportunities from config/redemptionOpportunities,
+ * validated on first use
+ */
+export const getConfiguredOpportunities = (): RedemptionOpportunity[] => {
+  if (!configuredOpportunities) {
+    const { opportunities, issues } = parseRedemptionOpportunities(REDEMPTION_OPPORTUNITIES);
+    if (issues.length > 0) {
+      console.warn('Skipped invalid redemption opportunities:', describeOpportunityConfigIssues(issues));
+    }
+    configuredOpportunities = opportunities;
+  }
+  return configuredOpportunities;
+};
+
+/**
+ * Where an opportunity is in its schedule
+ */
+export const getOpportunityAvailability = (opportunity: RedemptionOpportunity, now = Date.now()): OpportunityAvailability => {
+  if (opportunity.startsAt !== null && now < opportunity.startsAt) return 'upcoming';
+  if (opportunity.endsAt !== null && now >= opportunity.endsAt) return 'ended';
+  return 'open';
+};
+
+/**
+ * Whether a user can redeem an opportunity with what they hold, and what
+ * is missing if not
+ */
+export const checkOpportunity = (
+  opportunity: RedemptionOpportunity,
+  context: RequirementContext,
+  redeemedCount: number
+): OpportunityCheck => {
+  const requirements = evaluateRequirements(opportunity.requirements, context);
+  const availability = getOpportunityAvailability(opportunity, context.now);
+  const limitReached = opportunity.perUserLimit !== null && redeemedCount >= opportunity.perUserLimit;
+
+  return {
+    canRedeem: requirements.isMet && availability === 'open' && !limitReached,
+    availability,
+    requirements,
+    missingRequirements: requirements.missing,
+    completionPercent: Math.round(requirements.progress * 100),
+    limitReached,
+  };
+};
+
+const OPPORTUNITY_REDEMPTIONS_KEY = 'opportunity_redemptions';
+
+// Redemption counts by wallet, then opportunity ID
+const readRedemptionCounts = (): Record<string, Record<string, number>> => {
+  try {
+    const stored = localStorage.getItem(OPPORTUNITY_REDEMPTIONS_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, Record<string, number>>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * How many times each opportunity was redeemed from this browser by a
+ * wallet. Only used to lock the card early - the fulfillment provider
+ * enforces the per-user limit (the local one only has this count).
+ */
+export const getOpportunityRedemptionCounts = (address: string): Record<string, number> =>
+  readRedemptionCounts()[address] ?? {};
+
+/**
+ * Count a redemption towards the wallet's per-user limit
+ */
+export const recordOpportunityRedemption = (address: string, opportunityId: string) => {
+  try {
+    const counts = readRedemptionCounts();
+    const forAddress = counts[address] ?? {};
+    forAddress[opportunityId] = (forAddress[opportunityId] ?? 0) + 1;
+    counts[address] = forAddress;
+    localStorage.setItem(OPPORTUNITY_REDEMPTIONS_KEY, JSON.stringify(counts));
+  } catch {
+    // localStorage unavailable - the limit just isn't remembered
+  }
+};
+
+/**
+ * Why an opportunity can't be redeemed right now, for buttons and toasts
+ */
+export const describeOpportunityBlock = (check: OpportunityCheck): string => {
+  if (check.availability === 'upcoming') return 'Not open yet';
+  if (check.availability === 'ended') return 'This opportunity has ended';
+  if (check.limitReached) return 'Redemption limit reached';
+  return `Missing: ${check.missingRequirements.join(', ')}`;
+};
@@ -1,13 +1,16 @@
 import { Transaction } from '@mysten/sui/transactions';
-import { SUI_CONFIG } from '../config/sui';
+import { SUI_CONFIG, getPerkManagerTransactionPackageId } from '../config/sui';
 
 /**
  * Build a transaction to claim a perk (quota-free version)
- * This is the simplified version that bypasses partner quota validation
+ * This is the simplified version that bypasses partner quota validation.
+ * Pass `transaction` to append the claim to an existing one.
  */
-export const buildClaimPerkQuotaFreeTransaction = (perkDefinitionId: string): Transaction => {
-  const transaction = new Transaction();
-  const packageId = SUI_CONFIG.packageIds.perkManager;
+export const buildClaimPerkQuotaFreeTransaction = (
+  perkDefinitionId: string,
+  transaction = new Transaction()
+): Transaction => {
+  const packageId = getPerkManagerTransactionPackageId();
 
   // Call the correct quota-free claim function
   transaction.moveCall({
@@ -30,10 +33,10 @@ export const buildClaimPerkQuotaFreeTransaction = (perkDefinitionId: string): Tr
 export const buildClaimPerkWithMetadataQuotaFreeTransaction = (
   perkDefinitionId: string,
   metadataKey: string,
-  metadataValue: string
+  metadataValue: string,
+  transaction = new Transaction()
 ): Transaction => {
-  const transaction = new Transaction();
-  const packageId = SUI_CONFIG.packageIds.perkManager;
+  const packageId = getPerkManagerTransactionPackageId();
 
   // Call the correct quota-free claim function with metadata
   transaction.moveCall({
@@ -53,7 +56,8 @@ export const buildClaimPerkWithMetadataQuotaFreeTransaction = (
 
 /**
  * Build a transaction to claim a perk with hashed metadata (for privacy)
- * Used for sensitive data like Discord IDs that should be hashed
+ * Used for sensitive data like Discord IDs. Produce the value with
+ * hmacMetadataValue or commitMetadataValue from utils/metadataCrypto.
  */
 export const buildClaimPerkWithHashedMetadataTransaction = (
   perkDefinitionId: string,
@@ -67,57 +71,65 @@ export const buildClaimPerkWithHashedMetadataTransaction = (
   );
 };
 
-/**
- * Simple hash function for metadata privacy
- * Note: This is a basic implementation. In production, consider using
- * a more robust hashing method or server-side hashing.
- */
-export const hashMetadata = (value: string, salt: string): string => {
-  // Simple hash implementation - in production you might want to use crypto.subtle
-  let hash = 0;
-  const combined = value + salt;
-  
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  return Math.abs(hash).toString(16);
-};
-
 /**
  * Get the appropriate transaction builder based on perk requirements
  */
 export const getPerkClaimTransaction = (
   perkDefinitionId: string,
   perk?: any,
-  metadata?: { key: string; value: string; shouldHash?: boolean; salt?: string }
+  metadata?: { key: string; value: string } // Already hashed or encrypted if needed (see utils/claimMetadata)
 ): Transaction => {
   // If metadata is provided
   if (metadata) {
-    if (metadata.shouldHash && metadata.salt) {
-      // Hash the metadata value for privacy
-      const hashedValue = hashMetadata(metadata.value, metadata.salt);
-      return buildClaimPerkWithHashedMetadataTransaction(
-        perkDefinitionId,
-        metadata.key,
-        hashedValue
-      );
-    } else {
-      // Use metadata as-is
-      return buildClaimPerkWithMetadataQuotaFreeTransaction(
-        perkDefinitionId,
-        metadata.key,
-        metadata.value
-      );
-    }
+    return buildClaimPerkWithMetadataQuotaFreeTransaction(
+      perkDefinitionId,
+      metadata.key,
+      metadata.value
+    );
   }
   
   // Standard perk claim without metadata
   return buildClaimPerkQuotaFreeTransaction(perkDefinitionId);
 };
 
+/**
+ * Build one transaction claiming several perks, e.g. a cart checkout. Each
+ * claim is a single command, so a failing command index is the index of
+ * the claim that caused it. The claims succeed or fail together.
+ */
+export const buildClaimPerksTransaction = (
+  claims: { perkDefinitionId: string; metadata?: { key: string; value: string } }[]
+): Transaction => {
+  const transaction = new Transaction();
+  for (const { perkDefinitionId, metadata } of claims) {
+    if (metadata) {
+      buildClaimPerkWithMetadataQuotaFreeTransaction(perkDefinitionId, metadata.key, metadata.value, transaction);
+    } else {
+      buildClaimPerkQuotaFreeTransaction(perkDefinitionId, transaction);
+    }
+  }
+  return transaction;
+};
+
+/**
+ * Build a transaction to use a claimed perk once. Decrements the
+ * ClaimedPerk's remaining uses and marks it consumed when none are left.
+ */
+export const buildConsumePerkTransaction = (claimedPerkId: string): Transaction => {
+  const transaction = new Transaction();
+  const packageId = getPerkManagerTransactionPackageId();
+
+  transaction.moveCall({
+    target: `${packageId}::perk_manager::consume_perk`,
+    arguments: [
+      transaction.object(claimedPerkId), // claimed_perk: &mut ClaimedPerk
+      transaction.object('0x6'), // clock_obj: &Clock
+    ],
+  });
+
+  return transaction;
+};
+
 /**
  * Check if a perk requires metadata collection
  */
@@ -0,0 +1,135 @@
+// Signed voucher codes
+// A voucher code names the ClaimedPerk it was issued for, the transaction
+// that consumed it and an expiry, signed with the issuer's ECDSA P-256 key:
+//
+//   <PREFIX>-<base64url(version | claimed perk ID | digest | expiry | signature)>
+//
+// Merchants check the signature and expiry offline with the issuer's public
+// key, then confirm on-chain that the digest consumed that perk (see
+// services/voucherVerification). The code proves nothing about whether it
+// was already used at the till - record accepted codes by digest.
+//
+// Like metadataCrypto this only uses WebCrypto, so issuers can sign codes
+// in Node 18+ with the same file. See REDEMPTION_EXAMPLES.md.
+import { fromBase58, fromHex, isValidTransactionDigest, normalizeSuiObjectId, toBase58, toHex } from '@mysten/sui/utils';
+import { decodeU64, encodeU64 } from './codec';
+
+export interface VoucherPayload {
+  claimedPerkId: string;
+  digest: string; // Transaction that consumed the perk
+  expiresAt: number; // ms
+}
+
+export type VoucherCodeCheck =
+  | { valid: true; prefix: string; payload: VoucherPayload }
+  | { valid: false; reason: 'malformed' | 'bad_signature' | 'expired'; payload?: VoucherPayload };
+
+const VOUCHER_VERSION = 1;
+const DOMAIN = 'alpha4-perk-voucher:v1';
+const ID_BYTES = 32;
+const SIGNATURE_BYTES = 64; // P-256 r || s
+const PAYLOAD_BYTES = 1 + ID_BYTES + ID_BYTES + 8;
+const CODE_PATTERN = /^([A-Z0-9]+)-([A-Za-z0-9_-]+)$/;
+const ECDSA = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const P256 = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+// Prefix and payload, so a code can't be moved to another brand's prefix
+const signedMessage = (prefix: string, payload: Uint8Array): Uint8Array => {
+  const header = encoder.encode(`${DOMAIN}\n${prefix}\n`);
+  const message = new Uint8Array(header.length + payload.length);
+  message.set(header);
+  message.set(payload, header.length);
+  return message;
+};
+
+const encodePayload = ({ claimedPerkId, digest, expiresAt }: VoucherPayload): Uint8Array => {
+  const digestBytes = fromBase58(digest);
+  if (digestBytes.length !== ID_BYTES) {
+    throw new Error('Invalid transaction digest');
+  }
+  const payload = new Uint8Array(PAYLOAD_BYTES);
+  payload[0] = VOUCHER_VERSION;
+  payload.set(fromHex(normalizeSuiObjectId(claimedPerkId)), 1);
+  payload.set(digestBytes, 1 + ID_BYTES);
+  payload.set(encodeU64(BigInt(expiresAt)), 1 + 2 * ID_BYTES);
+  return payload;
+};
+
+const decodePayload = (payload: Uint8Array): VoucherPayload | null => {
+  if (payload.length !== PAYLOAD_BYTES || payload[0] !== VOUCHER_VERSION) return null;
+  const digest = toBase58(payload.slice(1 + ID_BYTES, 1 + 2 * ID_BYTES));
+  if (!isValidTransactionDigest(digest)) return null;
+  return {
+    claimedPerkId: `0x${toHex(payload.slice(1, 1 + ID_BYTES))}`,
+    digest,
+    expiresAt: Number(decodeU64(payload.slice(1 + 2 * ID_BYTES))),
+  };
+};
+
+/**
+ * Issue a voucher code. `prefix` is upper-case letters and digits (e.g.
+ * the brand's initials); the private key is a P-256 JWK.
+ */
+export const signVoucherCode = async (payload: VoucherPayload, privateKey: JsonWebKey, prefix: string): Promise<string> => {
+  if (!/^[A-Z0-9]+$/.test(prefix)) {
+    throw new Error('Voucher prefix must be upper-case letters and digits');
+  }
+  const key = await crypto.subtle.importKey('jwk', privateKey, P256, false, ['sign']);
+  const encoded = encodePayload(payload);
+  const signature = new Uint8Array(await crypto.subtle.sign(ECDSA, key, signedMessage(prefix, encoded)));
+
+  const body = new Uint8Array(PAYLOAD_BYTES + SIGNATURE_BYTES);
+  body.set(encoded);
+  body.set(signature, PAYLOAD_BYTES);
+  return `${prefix}-${toBase64Url(body)}`;
+};
+
+/**
+ * Check a voucher code's signature and expiry without touching the chain.
+ * `publicKey` is the issuer's P-256 key, base64 raw uncompressed point;
+ * throws if it isn't one.
+ */
+export const verifyVoucherCode = async (code: string, publicKey: string, now = Date.now()): Promise<VoucherCodeCheck> => {
+  const match = CODE_PATTERN.exec(code.trim());
+  if (!match) return { valid: false, reason: 'malformed' };
+  const prefix = match[1]!;
+  const encoded = match[2]!;
+
+  let body: Uint8Array;
+  try {
+    body = fromBase64Url(encoded);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+  const payloadBytes = body.slice(0, PAYLOAD_BYTES);
+  const payload = body.length === PAYLOAD_BYTES + SIGNATURE_BYTES ? decodePayload(payloadBytes) : null;
+  if (!payload) return { valid: false, reason: 'malformed' };
+
+  const key = await crypto.subtle.importKey('raw', Uint8Array.from(atob(publicKey), char => char.charCodeAt(0)), P256, false, ['verify']);
+  const signed = await crypto.subtle.verify(ECDSA, key, body.slice(PAYLOAD_BYTES), signedMessage(prefix, payloadBytes));
+  if (!signed) return { valid: false, reason: 'bad_signature', payload };
+  if (payload.expiresAt <= now) return { valid: false, reason: 'expired', payload };
+
+  return { valid: true, prefix, payload };
+};
+
+/**
+ * Generate a voucher signing key pair. Give `publicKey` to merchants and
+ * keep `privateKey` with whatever issues the codes.
+ */
+export const generateVoucherKeyPair = async (): Promise<{ publicKey: string; privateKey: JsonWebKey }> => {
+  const keyPair = await crypto.subtle.generateKey(P256, true, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  return {
+    publicKey: btoa(String.fromCharCode(...publicKey)),
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  };
+};